@@ -0,0 +1,3967 @@
+#!/usr/bin/env node
+
+import fs from "fs";
+import path from "path";
+import { Command } from "commander";
+import inquirer from "inquirer";
+import { Connection, PublicKey, Transaction } from "@solana/web3.js";
+import { TOKEN_2022_PROGRAM_ID } from "@solana/spl-token";
+import { WalletManager } from "./wallet/wallet";
+import { Keystore } from "./wallet/keystore";
+import { AddressBook } from "./wallet/addressBook";
+import {
+  DEFAULT_KEYPAIR_PATH,
+  expandHomePath,
+  findKeypairFiles,
+} from "./wallet/keypairFile";
+import {
+  estimateVanityAttempts,
+  findVanityKeypair,
+  validateVanityPattern,
+} from "./wallet/vanity";
+import {
+  DEFAULT_DERIVATION_PATH,
+  deriveKeypairs,
+  validateMnemonic,
+} from "./wallet/mnemonic";
+import {
+  TransferManager,
+  assertRecipientAllowed,
+} from "./transaction/transfer";
+import { AirdropManager } from "./transaction/airdrop";
+import { TokenTransferManager } from "./transaction/tokenTransfer";
+import { PortfolioManager } from "./wallet/portfolio";
+import { HistoryManager } from "./transaction/history";
+import { NonceManager } from "./transaction/nonce";
+import { StakeManager } from "./transaction/stake";
+import { LookupTableManager } from "./transaction/lookupTable";
+import { AccountWatcher } from "./transaction/watcher";
+import {
+  PriorityFeeManager,
+  getPriorityFeeLamports,
+  parseComputeUnitLimit,
+  parsePriorityFee,
+} from "./transaction/priorityFee";
+import {
+  BatchPayoutManager,
+  assertJournalMatches,
+  getRunLookupTables,
+  hashPayoutCsv,
+  loadJournal,
+  parsePayoutCsv,
+  payoutResultsToCsv,
+  saveJournal,
+  summarizeJournal,
+} from "./transaction/batch";
+import {
+  addSignature,
+  describeTransaction,
+  getMissingSigners,
+  getRequiredSigners,
+  readTransaction,
+  serializeTransaction,
+  signOffline,
+  writeTransaction,
+} from "./transaction/offline";
+import {
+  CLUSTERS,
+  COMMITMENTS,
+  detectCluster,
+  formatBalance,
+  formatDecimalAmount,
+  getExplorerUrl,
+  getFundingHint,
+  getNetworkInfo,
+  isValidCluster,
+  isValidCommitment,
+  lamportsToSol,
+  solToLamports,
+  toCsv,
+  truncateAddress,
+  validatePublicKey,
+} from "./utils/helpers";
+import { displayErrorHelp } from "./utils/errorHandler";
+import { classifyError } from "./utils/errors";
+import { Logger } from "./utils/logger";
+import {
+  CommandError,
+  EXIT_CODES,
+  ExitCodeName,
+  emitResult,
+  enableJsonOutput,
+  isJsonOutput,
+  printJson,
+  printJsonLine,
+  reportError,
+} from "./utils/output";
+import {
+  postWebhook,
+  runEventCommand,
+  validateWebhookUrl,
+} from "./utils/notify";
+import {
+  AirdropResult,
+  CLIOptions,
+  ClusterType,
+  ComputeBudgetSettings,
+  Contact,
+  DurableNonceParams,
+  EpochProgress,
+  SimulationResult,
+  NonceAccountInfo,
+  HistoryOptions,
+  LookupTableInfo,
+  NetworkInfo,
+  RecipientAnalysis,
+  RecipientKind,
+  StakeAccountInfo,
+  TokenTransferPlan,
+  TransactionDetails,
+  ValidatorSummary,
+  VanityProgress,
+  WalletPortfolio,
+  WatchEvent,
+} from "./types";
+
+const program = new Command();
+
+interface WalletState {
+  wallet: WalletManager | null;
+  network: NetworkInfo;
+  connection: Connection;
+  keystore: Keystore;
+  addressBook: AddressBook;
+}
+
+const defaultNetwork = getNetworkInfo("devnet");
+
+const state: WalletState = {
+  wallet: null,
+  network: defaultNetwork,
+  connection: new Connection(defaultNetwork.url, defaultNetwork.commitment),
+  keystore: new Keystore(),
+  addressBook: new AddressBook(),
+};
+
+// Human-facing output. In JSON mode it goes to stderr so stdout carries
+// only the JSON document.
+const logger: Logger = {
+  info: (message) =>
+    isJsonOutput() ? console.error(message) : console.log(message),
+  warn: (message) => console.warn(message),
+  error: (message) => console.error(message),
+};
+
+// The managers are silent by default; the CLI shows their progress
+const managerOptions = { logger };
+
+function setNetwork(network: NetworkInfo) {
+  state.network = network;
+  state.connection = new Connection(network.url, network.commitment);
+}
+
+/**
+ * Apply the global --cluster, --url and --commitment options. The cluster
+ * of a custom --url is read from the endpoint, so a mainnet URL is treated
+ * as mainnet whatever --cluster says.
+ */
+async function configureNetwork(options: CLIOptions, clusterGiven: boolean) {
+  const cluster = options.cluster ?? "devnet";
+  if (!isValidCluster(cluster)) {
+    throw new CommandError(
+      `Invalid cluster "${cluster}". Use one of: ${CLUSTERS.join(", ")}`,
+      "INVALID_INPUT"
+    );
+  }
+
+  const commitment = options.commitment ?? "confirmed";
+  if (!isValidCommitment(commitment)) {
+    throw new CommandError(
+      `Invalid commitment "${commitment}". Use one of: ${COMMITMENTS.join(", ")}`,
+      "INVALID_INPUT"
+    );
+  }
+
+  if (options.url && !/^https?:\/\//.test(options.url)) {
+    throw new CommandError(
+      `Invalid RPC URL "${options.url}": must start with http(s)://`,
+      "INVALID_INPUT"
+    );
+  }
+
+  const network = getNetworkInfo(cluster, options.url, commitment);
+  setNetwork(
+    options.url ? await identifyCluster(network, clusterGiven) : network
+  );
+}
+
+/**
+ * Set the cluster of a custom RPC endpoint to the one it actually serves.
+ * A cluster chosen explicitly must match it, and is only taken on trust
+ * when the endpoint cannot be reached.
+ */
+async function identifyCluster(
+  network: NetworkInfo,
+  clusterGiven: boolean
+): Promise<NetworkInfo> {
+  let cluster: ClusterType;
+  try {
+    cluster = await detectCluster(
+      new Connection(network.url, network.commitment)
+    );
+  } catch (error) {
+    if (clusterGiven) return network;
+    throw new CommandError(
+      `Could not identify the cluster of ${network.url}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }. Pass --cluster to name it.`,
+      "NETWORK_ERROR"
+    );
+  }
+
+  if (clusterGiven && cluster !== network.cluster) {
+    throw new CommandError(
+      `${network.url} serves ${cluster}, not ${network.cluster}`,
+      "INVALID_INPUT"
+    );
+  }
+  return { ...network, cluster };
+}
+
+function explorerUrl(signature: string): string {
+  const customUrl =
+    state.network.cluster === "localnet" ? state.network.url : undefined;
+  return getExplorerUrl(signature, state.network.cluster, customUrl);
+}
+
+/**
+ * Short form of an address for tables: its contact label when it has one
+ */
+function displayAddress(address: string, chars: number = 4): string {
+  const contact = state.addressBook.findByAddress(
+    address,
+    state.network.cluster
+  );
+  return contact ? contact.label : truncateAddress(address, chars);
+}
+
+/**
+ * Full address followed by its contact label, for confirmations
+ */
+function withLabel(address: string): string {
+  const contact = state.addressBook.findByAddress(
+    address,
+    state.network.cluster
+  );
+  return contact ? `${address} (${contact.label})` : address;
+}
+
+/**
+ * Resolve a recipient given as an address or a contact label
+ */
+function resolveRecipient(labelOrAddress: string): PublicKey {
+  return new PublicKey(
+    state.addressBook.resolve(labelOrAddress, state.network.cluster)
+  );
+}
+
+/**
+ * Ask for a recipient, offering the address book as a searchable list
+ */
+async function promptRecipient(message: string): Promise<string> {
+  const contacts = state.addressBook.list(state.network.cluster);
+  if (contacts.length > 0) {
+    const answer = await inquirer.prompt({
+      type: "search",
+      name: "recipient",
+      message: `${message} (type to search contacts)`,
+      source: async (term: string | undefined) => {
+        const query = (term ?? "").trim();
+        const matches = contacts
+          .filter((contact) => matchesContact(contact, query))
+          .map((contact) => ({
+            name: `📒 ${contact.label.padEnd(16)} ${truncateAddress(
+              contact.address
+            )}${contact.note ? `  ${contact.note}` : ""}`,
+            value: contact.address,
+          }));
+        return [
+          ...(validatePublicKey(query)
+            ? [{ name: `📥 ${query}`, value: query }]
+            : []),
+          ...matches,
+          { name: "✏️  Enter another address", value: "" },
+        ];
+      },
+    });
+    if (answer.recipient) {
+      return answer.recipient;
+    }
+  }
+
+  const answer = await inquirer.prompt({
+    type: "input",
+    name: "recipient",
+    message: `${message}:`,
+    validate: (input: string) =>
+      validatePublicKey(input) ? true : "Please enter a valid public key",
+  });
+  return answer.recipient;
+}
+
+function matchesContact(contact: Contact, query: string): boolean {
+  const wanted = query.toLowerCase();
+  return [contact.label, contact.address, contact.note ?? ""].some((field) =>
+    field.toLowerCase().includes(wanted)
+  );
+}
+
+/**
+ * Report the outcome of a send. A pending transaction may still land, so
+ * the user is told not to resend it.
+ */
+function printSendResult(details: TransactionDetails) {
+  if (details.status === "confirmed") {
+    logger.info(`✅ Transaction confirmed!`);
+  } else if (details.status === "failed") {
+    logger.error(`❌ Transaction failed: ${details.error}`);
+  } else {
+    logger.warn(`⚠️  ${details.error}`);
+    logger.warn(
+      "   Do not send again until the explorer shows whether it landed."
+    );
+  }
+  logger.info(`🔗 Transaction signature: ${details.signature}`);
+  logger.info(`🌐 View on Solana Explorer: ${explorerUrl(details.signature)}`);
+  if (details.status === "failed") {
+    displayErrorHelp(details.errorType, state.network.cluster, logger);
+  }
+}
+
+function printSimulation(result: SimulationResult) {
+  logger.info(
+    result.error
+      ? `\n❌ Simulation failed: ${result.error}`
+      : "\n✅ Simulation succeeded"
+  );
+  if (result.unitsConsumed !== undefined) {
+    logger.info(`⚙️  Compute units consumed: ${result.unitsConsumed}`);
+  }
+  logger.info(`⚡ Fee: ${formatBalance(result.fee)} SOL`);
+
+  logger.info("💰 Balance changes:");
+  result.balanceChanges.forEach(({ address, before, after }) => {
+    const change = after - before;
+    logger.info(
+      `   ${address}  ${formatBalance(before)} → ${formatBalance(after)} SOL (${
+        change >= 0n ? "+" : "-"
+      }${formatBalance(change >= 0n ? change : -change)})`
+    );
+  });
+
+  logger.info("📜 Program logs:");
+  if (result.logs.length === 0) {
+    logger.info("   (none)");
+  }
+  result.logs.forEach((line) => logger.info(`   ${line}`));
+}
+
+const RECIPIENT_LABELS: Record<RecipientKind, string> = {
+  wallet: "system wallet",
+  "new-account": "new account (created by this transfer)",
+  "token-account": "token account",
+  program: "program",
+  pda: "program derived address (PDA)",
+  "program-owned": "program-owned account",
+};
+
+function printRecipientAnalysis(analysis: RecipientAnalysis) {
+  logger.info(
+    `\n📥 Recipient: ${withLabel(analysis.address)} — ${
+      RECIPIENT_LABELS[analysis.kind]
+    }`
+  );
+  if (!analysis.owner) {
+    logger.info(
+      `   Account does not exist yet; rent-exempt minimum: ${formatBalance(
+        analysis.rentExemptMinimum
+      )} SOL`
+    );
+  } else {
+    logger.info(`   Balance: ${formatBalance(analysis.lamports)} SOL`);
+  }
+  if (analysis.tokenOwner) {
+    logger.info(`   Mint: ${analysis.mint}`);
+    logger.info(`   Token account owner: ${analysis.tokenOwner}`);
+  } else if (analysis.owner && analysis.kind !== "wallet") {
+    logger.info(`   Owner program: ${analysis.owner}`);
+  }
+  analysis.warnings.forEach((warning) => logger.warn(`⚠️  ${warning}`));
+  if (analysis.blocked) {
+    logger.error(`⛔ ${analysis.blocked}`);
+  }
+}
+
+/**
+ * Check where a transfer goes and show the result; refuses blocked
+ * recipients
+ */
+async function checkRecipient(
+  transferManager: TransferManager,
+  recipient: PublicKey,
+  lamports: bigint
+): Promise<RecipientAnalysis> {
+  const analysis = await transferManager.analyzeRecipient(recipient, lamports);
+  printRecipientAnalysis(analysis);
+  assertRecipientAllowed(analysis, true);
+  return analysis;
+}
+
+/**
+ * Set the exit code for a send and print the JSON document in JSON mode
+ */
+function emitSendResult(
+  details: TransactionDetails,
+  extra: Record<string, unknown> = {}
+) {
+  const code: ExitCodeName =
+    details.status === "failed"
+      ? "TRANSACTION_FAILED"
+      : details.status === "pending"
+        ? "NETWORK_ERROR"
+        : "SUCCESS";
+  process.exitCode = EXIT_CODES[code];
+
+  if (isJsonOutput()) {
+    printJson({
+      ok: code === "SUCCESS",
+      transaction: details,
+      ...extra,
+      ...(code !== "SUCCESS" && {
+        error: { code, exitCode: EXIT_CODES[code], message: details.error },
+      }),
+    });
+  }
+}
+
+/**
+ * Report invalid command input and set the matching exit code
+ */
+function invalidInput(message: string) {
+  reportError(new CommandError(message, "INVALID_INPUT"));
+}
+
+/**
+ * Ask for confirmation unless --yes was given. Prompts are not available
+ * with --json, so --yes is required there.
+ */
+async function confirmUnlessYes(
+  message: string,
+  yes: boolean = false
+): Promise<boolean> {
+  if (yes) {
+    return true;
+  }
+  if (isJsonOutput()) {
+    throw new CommandError(
+      "Pass --yes to confirm with --json",
+      "INVALID_INPUT"
+    );
+  }
+
+  const answer = await inquirer.prompt({
+    type: "confirm",
+    name: "confirm",
+    message,
+    default: false,
+  });
+  return answer.confirm;
+}
+
+/**
+ * Require an explicit second confirmation before moving real funds
+ */
+async function confirmMainnetTransfer(summary: string): Promise<boolean> {
+  if (state.network.cluster !== "mainnet-beta") {
+    return true;
+  }
+  if (isJsonOutput()) {
+    throw new CommandError(
+      "Pass --confirm-mainnet to send on mainnet-beta with --json",
+      "INVALID_INPUT"
+    );
+  }
+
+  logger.info("\n🚨 You are about to send REAL funds on mainnet-beta!");
+  logger.info(`   ${summary}`);
+  const answer = await inquirer.prompt({
+    type: "input",
+    name: "cluster",
+    message: 'Type "mainnet-beta" to confirm:',
+  });
+  return answer.cluster.trim() === "mainnet-beta";
+}
+
+/**
+ * Print troubleshooting advice for a failed command
+ */
+function showErrorHelp(error: unknown) {
+  displayErrorHelp(classifyError(error)?.type, state.network.cluster, logger);
+}
+
+async function promptPassword(
+  message: string,
+  confirm: boolean = false
+): Promise<string> {
+  // Allow non-interactive use (CI, scripts) without echoing the password
+  if (process.env.SOL_TX_PASSWORD) {
+    return process.env.SOL_TX_PASSWORD;
+  }
+
+  const answer = await inquirer.prompt({
+    type: "password",
+    name: "password",
+    message,
+    mask: "*",
+    validate: (input: string) =>
+      input.length > 0 ? true : "Password must not be empty",
+  });
+
+  if (confirm) {
+    const confirmation = await inquirer.prompt({
+      type: "password",
+      name: "password",
+      message: "Confirm password:",
+      mask: "*",
+    });
+    if (confirmation.password !== answer.password) {
+      throw new CommandError("Passwords do not match", "INVALID_INPUT");
+    }
+  }
+
+  return answer.password;
+}
+
+async function unlockWallet(name: string): Promise<WalletManager> {
+  const password = await promptPassword(`Password for wallet "${name}":`);
+  return WalletManager.fromKeystore(state.keystore, name, password);
+}
+
+async function saveWallet(wallet: WalletManager, name: string) {
+  const password = await promptPassword(
+    `Choose a password to encrypt wallet "${name}":`,
+    true
+  );
+  await wallet.saveToKeystore(state.keystore, name, password);
+  logger.info(`🗄️  Wallet saved to keystore as "${name}"`);
+}
+
+async function promptMnemonic(): Promise<{
+  mnemonic: string;
+  passphrase: string;
+}> {
+  const mnemonicAnswer = await inquirer.prompt({
+    type: "password",
+    name: "mnemonic",
+    message: "Enter your seed phrase (12 or 24 words):",
+    mask: "*",
+    validate: (input: string) =>
+      validateMnemonic(input) ? true : "Invalid seed phrase",
+  });
+
+  const passphraseAnswer = await inquirer.prompt({
+    type: "password",
+    name: "passphrase",
+    message: "BIP39 passphrase (leave empty if none):",
+    mask: "*",
+  });
+
+  return {
+    mnemonic: mnemonicAnswer.mnemonic,
+    passphrase: passphraseAnswer.passphrase,
+  };
+}
+
+// getMultipleAccountsInfo takes at most 100 addresses per request
+const MAX_DERIVE_COUNT = 100;
+
+async function getBalances(publicKeys: PublicKey[]): Promise<number[]> {
+  const accounts = await state.connection.getMultipleAccountsInfo(publicKeys);
+  return accounts.map((account) => (account ? account.lamports : 0));
+}
+
+interface WalletOptions {
+  privateKey?: string;
+  keypair?: string;
+  mnemonic?: boolean;
+  derivationPath?: string;
+  wallet?: string;
+}
+
+/**
+ * Add the options every wallet-using command accepts
+ */
+function withWalletOptions(command: Command): Command {
+  return command
+    .option("-k, --private-key <key>", "Private key (base58 encoded)")
+    .option(
+      "--keypair <path>",
+      `Keypair file in solana-keygen format (e.g. ${DEFAULT_KEYPAIR_PATH})`
+    )
+    .option("-w, --wallet <name>", "Wallet profile from the keystore")
+    .option(
+      "-m, --mnemonic",
+      "Prompt for a seed phrase instead of a private key"
+    )
+    .option(
+      "--derivation-path <path>",
+      "Derivation path used with --mnemonic",
+      DEFAULT_DERIVATION_PATH
+    );
+}
+
+function withPriorityFeeOptions(command: Command): Command {
+  return command
+    .option(
+      "--priority-fee <microLamports>",
+      'Priority fee in micro-lamports per compute unit, or "auto" to use recent fees'
+    )
+    .option(
+      "--compute-limit <units>",
+      "Compute unit limit for the transaction"
+    );
+}
+
+/**
+ * Resolve --priority-fee and --compute-limit for a transaction that locks the given accounts
+ */
+async function resolveComputeBudget(
+  options: { priorityFee?: string; computeLimit?: string },
+  accounts: PublicKey[]
+): Promise<ComputeBudgetSettings | undefined> {
+  return new PriorityFeeManager(state.connection, managerOptions).resolve(
+    {
+      priorityFee:
+        options.priorityFee !== undefined
+          ? parsePriorityFee(options.priorityFee)
+          : undefined,
+      computeUnitLimit:
+        options.computeLimit !== undefined
+          ? parseComputeUnitLimit(options.computeLimit)
+          : undefined,
+    },
+    accounts
+  );
+}
+
+function describeFee(fee: bigint, computeBudget?: ComputeBudgetSettings) {
+  const priorityFee = getPriorityFeeLamports(computeBudget);
+  return priorityFee > 0n
+    ? `${formatBalance(fee)} SOL fee incl. ${formatBalance(
+        priorityFee
+      )} SOL priority`
+    : `${formatBalance(fee)} SOL fee`;
+}
+
+/**
+ * Inquirer validator for SOL amounts typed as decimal strings
+ */
+function validateSolAmount(input: string): true | string {
+  try {
+    return solToLamports(input) > 0n ? true : "Amount must be greater than 0";
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid amount";
+  }
+}
+
+function hasWalletOption(options: WalletOptions): boolean {
+  return Boolean(
+    options.privateKey || options.keypair || options.mnemonic || options.wallet
+  );
+}
+
+/**
+ * Resolve the wallet for a command from -k, --keypair, --mnemonic, --wallet or the selected profile
+ */
+async function loadWallet(options: WalletOptions): Promise<WalletManager> {
+  const wallet = await openWallet(options);
+  logger.info(`🔑 Wallet loaded successfully`);
+  logger.info(`📍 Public Key: ${wallet.getPublicKey()}`);
+  return wallet;
+}
+
+async function openWallet(options: WalletOptions): Promise<WalletManager> {
+  if (options.privateKey) {
+    return new WalletManager(options.privateKey);
+  }
+
+  if (options.keypair) {
+    return WalletManager.fromKeypairFile(options.keypair);
+  }
+
+  if (options.mnemonic) {
+    const { mnemonic, passphrase } = await promptMnemonic();
+    return WalletManager.fromMnemonic(
+      mnemonic,
+      passphrase,
+      options.derivationPath
+    );
+  }
+
+  const name = options.wallet || state.keystore.getSelected();
+  if (!name) {
+    throw new CommandError(
+      "No wallet specified. Use --wallet <name>, -k <private-key>, or save a wallet with: wallet add <name>",
+      "INVALID_INPUT"
+    );
+  }
+
+  return unlockWallet(name);
+}
+
+/**
+ * Load an additional signer, such as a fee payer, from a keypair file or a
+ * saved wallet name
+ */
+async function loadSigner(walletOrFile: string): Promise<WalletManager> {
+  const signer = fs.existsSync(walletOrFile)
+    ? WalletManager.fromKeypairFile(walletOrFile)
+    : await unlockWallet(walletOrFile);
+  logger.info(`🔑 Signer loaded: ${signer.getPublicKey()}`);
+  return signer;
+}
+
+async function selectDerivedWallet(): Promise<WalletManager> {
+  const { mnemonic, passphrase } = await promptMnemonic();
+  const derived = deriveKeypairs(mnemonic, passphrase, 5);
+
+  logger.info("🔍 Looking up balances of derived accounts...");
+  const balances = await getBalances(
+    derived.map(({ keypair }) => keypair.publicKey)
+  );
+
+  const accountAnswer = await inquirer.prompt({
+    type: "list",
+    name: "index",
+    message: "Which account would you like to use?",
+    choices: derived.map(({ path, keypair }, index) => ({
+      name: `${path}  ${truncateAddress(
+        keypair.publicKey.toBase58()
+      )}  ${formatBalance(balances[index])} SOL`,
+      value: index,
+    })),
+  });
+
+  return WalletManager.fromKeypair(derived[accountAnswer.index].keypair);
+}
+
+async function pickKeypairFile(): Promise<WalletManager> {
+  const candidates = findKeypairFiles();
+
+  const fileAnswer = await inquirer.prompt({
+    type: "list",
+    name: "file",
+    message: "Select a keypair file:",
+    choices: [
+      ...candidates.map((file) => ({ name: `📄 ${file}`, value: file })),
+      { name: "✏️  Enter a path", value: "" },
+    ],
+  });
+
+  let file: string = fileAnswer.file;
+  if (!file) {
+    const pathAnswer = await inquirer.prompt({
+      type: "input",
+      name: "path",
+      message: "Path to keypair file:",
+      default: DEFAULT_KEYPAIR_PATH,
+    });
+    file = pathAnswer.path;
+  }
+
+  return WalletManager.fromKeypairFile(file);
+}
+
+async function offerToSaveWallet(wallet: WalletManager) {
+  const saveAnswer = await inquirer.prompt({
+    type: "confirm",
+    name: "save",
+    message: "Save this wallet to the encrypted keystore?",
+    default: false,
+  });
+  if (!saveAnswer.save) return;
+
+  const nameAnswer = await inquirer.prompt({
+    type: "input",
+    name: "name",
+    message: "Wallet name:",
+    validate: (input: string) => {
+      if (!Keystore.isValidName(input)) {
+        return "Use 1-32 letters, numbers, '-' or '_'";
+      }
+      return state.keystore.has(input)
+        ? "A wallet with this name already exists"
+        : true;
+    },
+  });
+  await saveWallet(wallet, nameAnswer.name);
+}
+
+async function importWallet() {
+  const profiles = state.keystore.list();
+
+  const sourceAnswer = await inquirer.prompt({
+    type: "list",
+    name: "source",
+    message: "Which wallet would you like to use?",
+    default: state.keystore.getSelected(),
+    choices: [
+      ...profiles.map((profile) => ({
+        name: `🗄️  ${profile.name} (${truncateAddress(profile.publicKey)})`,
+        value: profile.name,
+      })),
+      { name: "🔐 Enter a private key", value: "privateKey" },
+      { name: "🌱 Enter a seed phrase", value: "mnemonic" },
+      { name: "📄 Load a keypair file", value: "keypairFile" },
+    ],
+  });
+  const source: string = sourceAnswer.source;
+
+  try {
+    if (source === "privateKey") {
+      const answer = await inquirer.prompt({
+        type: "password",
+        name: "privateKey",
+        message: "Enter your private key (base58 encoded):",
+        mask: "*",
+      });
+      state.wallet = new WalletManager(answer.privateKey);
+      await offerToSaveWallet(state.wallet);
+    } else if (source === "mnemonic") {
+      state.wallet = await selectDerivedWallet();
+      await offerToSaveWallet(state.wallet);
+    } else if (source === "keypairFile") {
+      state.wallet = await pickKeypairFile();
+      await offerToSaveWallet(state.wallet);
+    } else {
+      state.wallet = await unlockWallet(source);
+    }
+
+    logger.info(`✅ Wallet imported successfully!`);
+    logger.info(`🔑 Public Key: ${state.wallet.getPublicKey()}`);
+
+    // Validate the wallet can be used for transactions
+    await state.wallet.validateForTransactions(state.connection, logger);
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    logger.error(`❌ Error importing wallet: ${errorMessage}`);
+    showErrorHelp(error);
+    state.wallet = null; // Reset wallet on validation failure
+  }
+}
+
+async function showBalance() {
+  if (!state.wallet) {
+    logger.error("❌ No wallet imported. Please import a wallet first.");
+    return;
+  }
+
+  try {
+    const publicKey = new PublicKey(state.wallet.getPublicKey());
+    const balance = await new PortfolioManager(state.connection).getBalance(
+      publicKey
+    );
+
+    logger.info(`💰 Balance: ${balance.formatted}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    logger.error(`❌ Error fetching balance: ${message}`);
+  }
+}
+
+function printAirdropResult(result: AirdropResult) {
+  logger.info(`✅ Received ${formatBalance(result.lamports)} SOL`);
+  logger.info(`💰 Balance: ${formatBalance(result.balance)} SOL`);
+  logger.info(`🔗 Transaction signature: ${result.signature}`);
+}
+
+async function requestAirdrop() {
+  if (!state.wallet) {
+    logger.error("❌ No wallet imported. Please import a wallet first.");
+    return;
+  }
+
+  try {
+    const airdropManager = new AirdropManager(
+      state.connection,
+      state.network.cluster,
+      managerOptions
+    );
+    const limit = airdropManager.getLimit();
+    const amountAnswer = await inquirer.prompt({
+      type: "input",
+      name: "amount",
+      message: `Amount to airdrop (SOL, at most ${formatBalance(limit)}):`,
+      default: "1",
+      validate: (input: string) => {
+        const valid = validateSolAmount(input);
+        if (valid !== true) return valid;
+        return (
+          solToLamports(input) <= limit ||
+          `At most ${formatBalance(limit)} SOL per request on ${
+            state.network.cluster
+          }`
+        );
+      },
+    });
+
+    printAirdropResult(
+      await airdropManager.requestAirdrop(
+        state.wallet.getKeypair().publicKey,
+        solToLamports(amountAnswer.amount)
+      )
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    logger.error(`❌ Airdrop failed: ${message}`);
+    showErrorHelp(error);
+  }
+}
+
+function printPortfolio(portfolio: WalletPortfolio) {
+  logger.info(`\n👛 Wallet: ${portfolio.owner} (${state.network.cluster})`);
+  logger.info(`💰 SOL: ${portfolio.formatted}`);
+
+  if (portfolio.tokens.length === 0) {
+    logger.info("🪙 No token accounts found");
+    return;
+  }
+
+  logger.info(`🪙 Token accounts (${portfolio.tokens.length}):\n`);
+  portfolio.tokens.forEach((token) => {
+    const flags: string[] = [];
+    if (token.program === "token-2022") flags.push("Token-2022");
+    if (!token.isAssociated) flags.push("⚠️ non-ATA");
+    if (token.amount === 0n) flags.push("empty");
+    if (token.isFrozen) flags.push("🧊 frozen");
+    if (token.delegate) {
+      flags.push(
+        `delegated ${token.delegatedAmount ?? 0n} to ${truncateAddress(
+          token.delegate
+        )}`
+      );
+    }
+
+    logger.info(`   Mint:    ${token.mint}`);
+    logger.info(`   Account: ${token.address}`);
+    logger.info(
+      `   Amount:  ${token.uiAmount} (raw ${token.amount}, ${token.decimals} decimals)`
+    );
+    if (flags.length > 0) {
+      logger.info(`   Flags:   ${flags.join(", ")}`);
+    }
+    logger.info("");
+  });
+
+  const emptyCount = portfolio.tokens.filter((t) => t.amount === 0n).length;
+  if (emptyCount > 0) {
+    logger.info(
+      `💡 ${emptyCount} empty token account(s) hold rent that can be reclaimed by closing them`
+    );
+  }
+}
+
+async function showTokens() {
+  if (!state.wallet) {
+    logger.error("❌ No wallet imported. Please import a wallet first.");
+    return;
+  }
+
+  try {
+    const portfolio = await new PortfolioManager(state.connection).getPortfolio(
+      state.wallet.getKeypair().publicKey
+    );
+    printPortfolio(portfolio);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    logger.error(`❌ Error fetching tokens: ${message}`);
+  }
+}
+
+function printHistoryTable(transactions: TransactionDetails[]) {
+  if (transactions.length === 0) {
+    logger.info("📜 No transactions found");
+    return;
+  }
+
+  const icons = { incoming: "📥 in ", outgoing: "📤 out", none: "➖    " };
+  logger.info(
+    `${"Time".padEnd(20)} ${"Dir".padEnd(6)} ${"Amount (SOL)".padStart(
+      14
+    )} ${"Fee (SOL)".padStart(11)} ${"Counterparty".padEnd(
+      13
+    )} ${"Status".padEnd(9)} Signature`
+  );
+  transactions.forEach((tx) => {
+    const time = tx.timestamp
+      ? new Date(tx.timestamp * 1000)
+          .toISOString()
+          .replace("T", " ")
+          .slice(0, 19)
+      : "unknown";
+    logger.info(
+      `${time.padEnd(20)} ${icons[tx.direction ?? "none"]} ${formatBalance(
+        tx.amount
+      ).padStart(14)} ${formatBalance(tx.fee).padStart(11)} ${(tx.counterparty
+        ? displayAddress(tx.counterparty)
+        : "-"
+      ).padEnd(13)} ${(tx.status === "failed" ? "❌ failed" : "✅ ok").padEnd(
+        9
+      )} ${truncateAddress(tx.signature, 8)}`
+    );
+  });
+}
+
+function historyToCsv(transactions: TransactionDetails[]): string {
+  return toCsv([
+    [
+      "signature",
+      "timestamp",
+      "slot",
+      "direction",
+      "from",
+      "to",
+      "counterparty_label",
+      "amount_sol",
+      "fee_sol",
+      "status",
+      "error",
+    ],
+    ...transactions.map((tx) => [
+      tx.signature,
+      tx.timestamp ? new Date(tx.timestamp * 1000).toISOString() : undefined,
+      tx.slot,
+      tx.direction,
+      tx.from,
+      tx.to,
+      tx.counterparty
+        ? state.addressBook.findByAddress(
+            tx.counterparty,
+            state.network.cluster
+          )?.label
+        : undefined,
+      lamportsToSol(tx.amount),
+      lamportsToSol(tx.fee),
+      tx.status,
+      tx.error,
+    ]),
+  ]);
+}
+
+async function showHistory() {
+  if (!state.wallet) {
+    logger.error("❌ No wallet imported. Please import a wallet first.");
+    return;
+  }
+
+  try {
+    logger.info("🔍 Fetching recent transactions...");
+    const page = await new HistoryManager(state.connection).getHistory(
+      state.wallet.getKeypair().publicKey,
+      { limit: 10 }
+    );
+    printHistoryTable(page.transactions);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    logger.error(`❌ Error fetching history: ${message}`);
+  }
+}
+
+async function sendSOL() {
+  if (!state.wallet) {
+    logger.error("❌ No wallet imported. Please import a wallet first.");
+    return;
+  }
+
+  const recipientAddress = await promptRecipient("Recipient");
+
+  const amountAnswer = await inquirer.prompt({
+    type: "input",
+    name: "amount",
+    message: "Enter amount to send (SOL):",
+    validate: validateSolAmount,
+  });
+  const lamports = solToLamports(amountAnswer.amount);
+
+  const priorityAnswer = await inquirer.prompt({
+    type: "list",
+    name: "priorityFee",
+    message: "Priority fee:",
+    choices: [
+      { name: "None (base fee only)", value: "none" },
+      { name: "Auto (based on recent fees)", value: "auto" },
+      { name: "Custom (micro-lamports per compute unit)", value: "custom" },
+    ],
+  });
+  if (priorityAnswer.priorityFee === "custom") {
+    const customAnswer = await inquirer.prompt({
+      type: "input",
+      name: "priorityFee",
+      message: "Micro-lamports per compute unit:",
+      validate: (input: string) =>
+        /^\d+$/.test(input.trim()) || "Enter a whole number",
+    });
+    priorityAnswer.priorityFee = customAnswer.priorityFee;
+  }
+
+  try {
+    const sender = state.wallet.getKeypair().publicKey;
+    const recipient = new PublicKey(recipientAddress);
+    const transferManager = new TransferManager(
+      state.connection,
+      managerOptions
+    );
+    const computeBudget = await resolveComputeBudget(
+      {
+        priorityFee:
+          priorityAnswer.priorityFee === "none"
+            ? undefined
+            : priorityAnswer.priorityFee,
+      },
+      [sender, recipient]
+    );
+    const fee = await transferManager.estimateTransactionFee(
+      sender,
+      recipient,
+      lamports,
+      computeBudget
+    );
+    const recipientAnalysis = await checkRecipient(
+      transferManager,
+      recipient,
+      lamports
+    );
+
+    let action: "send" | "simulate" | "cancel";
+    do {
+      const confirmAnswer = await inquirer.prompt({
+        type: "list",
+        name: "action",
+        message: `Send ${formatBalance(lamports)} SOL to ${withLabel(
+          recipientAddress
+        )} (${RECIPIENT_LABELS[recipientAnalysis.kind]}${
+          recipientAnalysis.warnings.length > 0 ? ", see warnings above" : ""
+        }) on ${state.network.cluster} (${describeFee(fee, computeBudget)})?`,
+        choices: [
+          { name: "Send", value: "send" },
+          { name: "Simulate first (no funds are moved)", value: "simulate" },
+          { name: "Cancel", value: "cancel" },
+        ],
+        default: "cancel",
+      });
+      action = confirmAnswer.action;
+
+      if (action === "simulate") {
+        printSimulation(
+          await transferManager.simulateTransfer(
+            sender,
+            recipient,
+            lamports,
+            undefined,
+            computeBudget
+          )
+        );
+      }
+    } while (action === "simulate");
+
+    if (
+      action !== "send" ||
+      !(await confirmMainnetTransfer(
+        `${formatBalance(lamports)} SOL → ${withLabel(recipientAddress)} (${describeFee(
+          fee,
+          computeBudget
+        )})`
+      ))
+    ) {
+      logger.info("❌ Transaction cancelled");
+      return;
+    }
+
+    printSendResult(
+      await transferManager.sendSOL(
+        state.wallet.getKeypair(),
+        recipient,
+        lamports,
+        undefined,
+        computeBudget
+      )
+    );
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    logger.error(`❌ Error sending transaction: ${errorMessage}`);
+    showErrorHelp(error);
+  }
+}
+
+function showTokenTransferPlan(plan: TokenTransferPlan) {
+  const program = plan.programId.equals(TOKEN_2022_PROGRAM_ID)
+    ? "Token-2022"
+    : "Token";
+
+  logger.info(`\n🪙 Token Transfer (${state.network.cluster})`);
+  logger.info(`   Mint: ${plan.mint.toBase58()} (${program} program)`);
+  logger.info(
+    `   Amount: ${formatDecimalAmount(plan.amount, plan.decimals)} (${
+      plan.decimals
+    } decimals)`
+  );
+  logger.info(
+    `   Your balance: ${formatDecimalAmount(plan.sourceBalance, plan.decimals)}`
+  );
+  logger.info(`   Recipient: ${withLabel(plan.recipient.toBase58())}`);
+  logger.info(
+    `   Recipient token account: ${plan.destinationTokenAccount.toBase58()}`
+  );
+  if (plan.createsDestinationAccount) {
+    logger.info(
+      `   ⚠️  Recipient has no token account yet. Creating it costs ${formatBalance(
+        plan.rentLamports
+      )} SOL rent (paid by you).`
+    );
+  }
+}
+
+async function sendToken() {
+  if (!state.wallet) {
+    logger.error("❌ No wallet imported. Please import a wallet first.");
+    return;
+  }
+
+  const mintAnswer = await inquirer.prompt({
+    type: "input",
+    name: "mint",
+    message: "Enter token mint address:",
+    validate: (input: string) =>
+      validatePublicKey(input) ? true : "Please enter a valid mint address",
+  });
+  const recipientAddress = await promptRecipient("Recipient wallet");
+  const answers = await inquirer.prompt([
+    {
+      type: "input",
+      name: "amount",
+      message: "Enter amount to send (tokens):",
+      validate: (input: string) =>
+        /^\d*\.?\d+$|^\d+\.$/.test(input.trim())
+          ? true
+          : "Please enter a positive decimal amount",
+    },
+  ]);
+
+  try {
+    const tokenManager = new TokenTransferManager(
+      state.connection,
+      managerOptions
+    );
+    const plan = await tokenManager.prepareTransfer(
+      state.wallet.getKeypair().publicKey,
+      new PublicKey(mintAnswer.mint),
+      new PublicKey(recipientAddress),
+      answers.amount
+    );
+    showTokenTransferPlan(plan);
+
+    const confirmAnswer = await inquirer.prompt({
+      type: "confirm",
+      name: "confirm",
+      message: "Send this token transfer?",
+      default: false,
+    });
+    if (
+      !confirmAnswer.confirm ||
+      !(await confirmMainnetTransfer(
+        `${answers.amount} of ${mintAnswer.mint} → ${withLabel(recipientAddress)}`
+      ))
+    ) {
+      logger.info("❌ Transaction cancelled");
+      return;
+    }
+
+    const signature = await tokenManager.sendTransfer(
+      state.wallet.getKeypair(),
+      plan
+    );
+    logger.info(`✅ Token transfer sent successfully!`);
+    logger.info(`🔗 Transaction signature: ${signature}`);
+    logger.info(`🌐 View on Solana Explorer: ${explorerUrl(signature)}`);
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    logger.error(`❌ Error sending tokens: ${errorMessage}`);
+    showErrorHelp(error);
+  }
+}
+
+async function switchNetwork() {
+  const clusterAnswer = await inquirer.prompt({
+    type: "list",
+    name: "cluster",
+    message: "Select a network:",
+    default: state.network.cluster,
+    choices: CLUSTERS.map((cluster) => ({ name: cluster, value: cluster })),
+  });
+
+  const urlAnswer = await inquirer.prompt({
+    type: "input",
+    name: "url",
+    message: "Custom RPC URL (leave empty for the public endpoint):",
+    validate: (input: string) =>
+      !input || /^https?:\/\//.test(input)
+        ? true
+        : "URL must start with http:// or https://",
+  });
+
+  const commitmentAnswer = await inquirer.prompt({
+    type: "list",
+    name: "commitment",
+    message: "Commitment level:",
+    default: state.network.commitment,
+    choices: COMMITMENTS,
+  });
+
+  const network = getNetworkInfo(
+    clusterAnswer.cluster as ClusterType,
+    urlAnswer.url || undefined,
+    commitmentAnswer.commitment
+  );
+  try {
+    setNetwork(urlAnswer.url ? await identifyCluster(network, true) : network);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    logger.error(`❌ Network not changed: ${message}`);
+    return;
+  }
+  logger.info(`🌐 Switched to ${state.network.cluster} (${state.network.url})`);
+  if (state.network.cluster === "mainnet-beta") {
+    logger.info("⚠️  You are now on mainnet-beta. Transfers use real funds!");
+  }
+}
+
+async function manageAddressBook() {
+  const contacts = state.addressBook.list(state.network.cluster);
+  if (contacts.length > 0) {
+    printContacts(contacts);
+  } else {
+    logger.info("📒 No contacts saved yet.");
+  }
+
+  const { action } = await inquirer.prompt({
+    type: "list",
+    name: "action",
+    message: "Address book:",
+    choices: [
+      { name: "➕ Add contact", value: "add" },
+      ...(contacts.length > 0
+        ? [
+            { name: "✏️  Edit contact", value: "edit" },
+            { name: "🗑️  Remove contact", value: "remove" },
+          ]
+        : []),
+      { name: "↩️  Back", value: "back" },
+    ],
+  });
+  if (action === "back") return;
+
+  try {
+    if (action === "add") {
+      const answers = await inquirer.prompt([
+        {
+          type: "input",
+          name: "label",
+          message: "Label:",
+          validate: (input: string) =>
+            AddressBook.isValidLabel(input) ||
+            "Use 1-32 letters, numbers, '.', '-' or '_' that do not form an address",
+        },
+        {
+          type: "input",
+          name: "address",
+          message: "Address:",
+          validate: (input: string) =>
+            validatePublicKey(input) || "Please enter a valid public key",
+        },
+        { type: "input", name: "note", message: "Note (optional):" },
+        {
+          type: "confirm",
+          name: "clusterOnly",
+          message: `Only offer it on ${state.network.cluster}?`,
+          default: false,
+        },
+      ]);
+      const contact = state.addressBook.add({
+        label: answers.label,
+        address: answers.address,
+        note: answers.note || undefined,
+        cluster: answers.clusterOnly ? state.network.cluster : undefined,
+      });
+      logger.info(`✅ Contact "${contact.label}" saved`);
+      return;
+    }
+
+    const { label } = await inquirer.prompt({
+      type: "list",
+      name: "label",
+      message: "Contact:",
+      choices: contacts.map((contact) => contact.label),
+    });
+
+    if (action === "remove") {
+      state.addressBook.remove(label);
+      logger.info(`✅ Contact "${label}" removed`);
+      return;
+    }
+
+    const contact = state.addressBook.get(label)!;
+    const answers = await inquirer.prompt([
+      {
+        type: "input",
+        name: "label",
+        message: "Label:",
+        default: contact.label,
+        validate: (input: string) =>
+          AddressBook.isValidLabel(input) ||
+          "Use 1-32 letters, numbers, '.', '-' or '_' that do not form an address",
+      },
+      {
+        type: "input",
+        name: "address",
+        message: "Address:",
+        default: contact.address,
+        validate: (input: string) =>
+          validatePublicKey(input) || "Please enter a valid public key",
+      },
+      {
+        type: "input",
+        name: "note",
+        message: "Note (optional):",
+        default: contact.note,
+      },
+    ]);
+    const updated = state.addressBook.update(label, {
+      label: answers.label,
+      address: answers.address,
+      note: answers.note || undefined,
+    });
+    logger.info(`✅ Contact "${updated.label}" updated`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    logger.error(`❌ Error updating address book: ${message}`);
+  }
+}
+
+async function manageStaking() {
+  if (!state.wallet) {
+    logger.error("❌ No wallet imported. Please import a wallet first.");
+    return;
+  }
+
+  const wallet = state.wallet.getKeypair();
+  const stakeManager = new StakeManager(state.connection, managerOptions);
+
+  try {
+    logger.info("🔍 Looking up stake accounts...");
+    const [accounts, progress] = await Promise.all([
+      stakeManager.getStakeAccounts(wallet.publicKey),
+      stakeManager.getEpochProgress(),
+    ]);
+    printEpochProgress(progress);
+    accounts.forEach((info) => {
+      logger.info("");
+      printStakeAccount(info, progress);
+    });
+    if (accounts.length === 0) {
+      logger.info("🥩 No stake accounts yet.");
+    }
+
+    const { action } = await inquirer.prompt({
+      type: "list",
+      name: "action",
+      message: "Staking:",
+      choices: [
+        { name: "➕ Stake SOL", value: "create" },
+        ...(accounts.length > 0
+          ? [
+              { name: "🗳️  Delegate", value: "delegate" },
+              { name: "⏸️  Deactivate", value: "deactivate" },
+              { name: "✂️  Split", value: "split" },
+              ...(accounts.length > 1
+                ? [{ name: "🔗 Merge", value: "merge" }]
+                : []),
+              { name: "💸 Withdraw", value: "withdraw" },
+            ]
+          : []),
+        { name: "↩️  Back", value: "back" },
+      ],
+    });
+    if (action === "back") return;
+
+    const pickAccount = async (message: string, exclude?: string) => {
+      const { address } = await inquirer.prompt({
+        type: "list",
+        name: "address",
+        message,
+        choices: accounts
+          .filter((info) => info.address !== exclude)
+          .map((info) => ({
+            name: `${info.address}  ${formatBalance(info.lamports)} SOL  ${
+              info.state
+            }`,
+            value: info.address,
+          })),
+      });
+      return new PublicKey(address);
+    };
+
+    const pickValidator = async () => {
+      logger.info("🔍 Loading validators...");
+      const validators = (await stakeManager.getValidators())
+        .filter((validator) => !validator.delinquent)
+        .slice(0, 20);
+      const { votePubkey } = await inquirer.prompt({
+        type: "list",
+        name: "votePubkey",
+        message: "Validator:",
+        choices: [
+          ...validators.map((validator) => ({
+            name: `${displayAddress(validator.votePubkey, 8)}  ${
+              validator.commission
+            }% commission  ${
+              formatBalance(validator.activatedStake).split(".")[0]
+            } SOL staked`,
+            value: validator.votePubkey,
+          })),
+          { name: "✏️  Enter a vote account", value: "" },
+        ],
+      });
+      return votePubkey
+        ? new PublicKey(votePubkey)
+        : resolveRecipient(await promptRecipient("Vote account"));
+    };
+
+    const promptAmount = async (message: string) => {
+      const { amount } = await inquirer.prompt({
+        type: "input",
+        name: "amount",
+        message,
+        validate: validateSolAmount,
+      });
+      return solToLamports(amount);
+    };
+
+    let signature: string;
+    switch (action) {
+      case "create": {
+        const lamports = await promptAmount("Amount to stake (SOL):");
+        const votePubkey = await pickValidator();
+        if (
+          !(await confirmMainnetTransfer(
+            `Stake ${formatBalance(lamports)} SOL with ${withLabel(
+              votePubkey.toBase58()
+            )}`
+          ))
+        ) {
+          logger.info("❌ Staking cancelled");
+          return;
+        }
+        const created = await stakeManager.createStakeAccount(
+          wallet,
+          lamports,
+          votePubkey
+        );
+        signature = created.signature;
+        logger.info(`✅ Stake account ${created.address.toBase58()} created`);
+        break;
+      }
+      case "delegate": {
+        const address = await pickAccount("Stake account to delegate:");
+        signature = await stakeManager.delegate(
+          wallet,
+          address,
+          await pickValidator()
+        );
+        logger.info(`✅ Stake delegated`);
+        break;
+      }
+      case "deactivate": {
+        const address = await pickAccount("Stake account to deactivate:");
+        signature = await stakeManager.deactivate(wallet, address);
+        logger.info(
+          `✅ Stake deactivating, withdrawable from epoch ${progress.epoch + 1}`
+        );
+        break;
+      }
+      case "split": {
+        const address = await pickAccount("Stake account to split:");
+        const lamports = await promptAmount("Amount to split off (SOL):");
+        const split = await stakeManager.split(wallet, address, lamports);
+        signature = split.signature;
+        logger.info(`✅ Split into ${split.address.toBase58()}`);
+        break;
+      }
+      case "merge": {
+        const destination = await pickAccount("Merge into:");
+        const source = await pickAccount(
+          "Stake account to merge (it will be closed):",
+          destination.toBase58()
+        );
+        signature = await stakeManager.merge(wallet, destination, source);
+        logger.info(`✅ Stake accounts merged`);
+        break;
+      }
+      case "withdraw": {
+        const address = await pickAccount("Stake account to withdraw from:");
+        const info = accounts.find(
+          (account) => account.address === address.toBase58()
+        )!;
+        logger.info(`💰 Withdrawable: ${formatBalance(info.withdrawable)} SOL`);
+        const lamports = await promptAmount("Amount to withdraw (SOL):");
+        if (
+          !(await confirmMainnetTransfer(
+            `Withdraw ${formatBalance(lamports)} SOL from stake`
+          ))
+        ) {
+          logger.info("❌ Withdrawal cancelled");
+          return;
+        }
+        signature = await stakeManager.withdraw(
+          wallet,
+          address,
+          wallet.publicKey,
+          lamports
+        );
+        logger.info(`✅ Withdrew ${formatBalance(lamports)} SOL`);
+        break;
+      }
+      default:
+        return;
+    }
+    logger.info(`🔗 Transaction signature: ${signature}`);
+    logger.info(`🌐 View on Solana Explorer: ${explorerUrl(signature)}`);
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    logger.error(`❌ Staking error: ${errorMessage}`);
+    showErrorHelp(error);
+  }
+}
+
+async function mainMenu() {
+  if (!state.wallet) {
+    await importWallet();
+    if (!state.wallet) return;
+  }
+
+  while (true) {
+    logger.info(`\n=== Solana Wallet CLI (${state.network.cluster}) ===`);
+
+    const answer = await inquirer.prompt({
+      type: "list",
+      name: "action",
+      message: "What would you like to do?",
+      choices: [
+        { name: "💰 Show Balance", value: "balance" },
+        ...(state.network.cluster === "mainnet-beta"
+          ? []
+          : [{ name: "🚰 Airdrop Test SOL", value: "airdrop" }]),
+        { name: "🪙 Show Tokens", value: "tokens" },
+        { name: "📜 Transaction History", value: "history" },
+        { name: "💸 Send SOL", value: "send" },
+        { name: "🪙 Send Token", value: "sendToken" },
+        { name: "📒 Address Book", value: "contacts" },
+        { name: "🥩 Staking", value: "stake" },
+        { name: "🔄 Switch Wallet", value: "switch" },
+        { name: "🌐 Switch Network", value: "network" },
+        { name: "🚪 Exit", value: "exit" },
+      ],
+    });
+
+    switch (answer.action) {
+      case "balance":
+        await showBalance();
+        break;
+      case "airdrop":
+        await requestAirdrop();
+        break;
+      case "tokens":
+        await showTokens();
+        break;
+      case "history":
+        await showHistory();
+        break;
+      case "send":
+        await sendSOL();
+        break;
+      case "sendToken":
+        await sendToken();
+        break;
+      case "contacts":
+        await manageAddressBook();
+        break;
+      case "stake":
+        await manageStaking();
+        break;
+      case "switch":
+        await importWallet();
+        break;
+      case "network":
+        await switchNetwork();
+        break;
+      case "exit":
+        logger.info("👋 Goodbye!");
+        process.exit(0);
+    }
+  }
+}
+
+program
+  .name("solana-wallet-cli")
+  .description("A CLI tool for Solana wallet operations")
+  .version("1.0.0")
+  .option(
+    "-c, --cluster <cluster>",
+    `Solana cluster (${CLUSTERS.join(", ")})`,
+    "devnet"
+  )
+  .option("-u, --url <rpc>", "Custom RPC endpoint URL")
+  .option(
+    "--commitment <level>",
+    `Commitment level (${COMMITMENTS.join(", ")})`,
+    "confirmed"
+  )
+  .option("--json", "Print a single JSON document on stdout")
+  .hook("preAction", async (_command, actionCommand) => {
+    if (program.opts().json) {
+      enableJsonOutput();
+      if (actionCommand === program || actionCommand.name() === "start") {
+        reportError(
+          new CommandError(
+            "Interactive mode is not available with --json; run a command instead",
+            "INVALID_INPUT"
+          )
+        );
+        process.exit();
+      }
+    }
+    try {
+      await configureNetwork(
+        program.opts(),
+        program.getOptionValueSource("cluster") === "cli"
+      );
+    } catch (error) {
+      reportError(error);
+      process.exit();
+    }
+  })
+  .action(mainMenu);
+
+withWalletOptions(program.command("start"))
+  .description("Start the interactive wallet CLI")
+  .action(async (options) => {
+    if (hasWalletOption(options)) {
+      try {
+        state.wallet = await loadWallet(options);
+      } catch (error) {
+        reportError(error, "Error loading wallet");
+        return;
+      }
+    }
+    await mainMenu();
+  });
+
+withWalletOptions(program.command("balance"))
+  .description("Show wallet balance")
+  .action(async (options) => {
+    try {
+      state.wallet = await loadWallet(options);
+      const address = state.wallet.getKeypair().publicKey;
+      const balance = await new PortfolioManager(state.connection).getBalance(
+        address
+      );
+
+      logger.info(`💰 Balance: ${balance.formatted}`);
+      emitResult({
+        address: address.toBase58(),
+        cluster: state.network.cluster,
+        ...balance,
+      });
+    } catch (error) {
+      reportError(error);
+    }
+  });
+
+withWalletOptions(program.command("airdrop [amount]"))
+  .description("Request test SOL (devnet, testnet and localnet only)")
+  .option(
+    "--address <address>",
+    "Fund any address or contact instead of the wallet"
+  )
+  .action(async (amount: string = "1", options) => {
+    try {
+      const amountError = validateSolAmount(amount);
+      if (amountError !== true) {
+        invalidInput(amountError);
+        return;
+      }
+
+      let recipient: PublicKey;
+      if (options.address) {
+        recipient = resolveRecipient(options.address);
+      } else {
+        state.wallet = await loadWallet(options);
+        recipient = state.wallet.getKeypair().publicKey;
+      }
+
+      const result = await new AirdropManager(
+        state.connection,
+        state.network.cluster,
+        managerOptions
+      ).requestAirdrop(recipient, solToLamports(amount));
+
+      printAirdropResult(result);
+      emitResult({ address: recipient.toBase58(), ...result });
+    } catch (error) {
+      reportError(error, "Airdrop failed");
+      showErrorHelp(error);
+    }
+  });
+
+withPriorityFeeOptions(withWalletOptions(program.command("send")))
+  .description("Send SOL to another wallet")
+  .option("-t, --to <address>", "Recipient public key or contact label")
+  .option("-a, --amount <amount>", "Amount to send (SOL)")
+  .option(
+    "--nonce <address>",
+    "Use a durable nonce account (authority: the sending wallet)"
+  )
+  .option(
+    "--dry-run",
+    "Simulate the transaction and show logs, fee and balance changes without sending"
+  )
+  .option(
+    "--confirm-mainnet",
+    "Skip the interactive confirmation for mainnet-beta transfers"
+  )
+  .option(
+    "--force",
+    "Send even if the recipient check warns about the destination"
+  )
+  .option(
+    "--fee-payer <wallet>",
+    "Pay the fee from another wallet (saved wallet name or keypair file)"
+  )
+  .action(async (options) => {
+    if (!options.to || !options.amount) {
+      invalidInput("Please provide all required options: -t, -a");
+      return;
+    }
+
+    try {
+      state.wallet = await loadWallet(options);
+      const recipient = resolveRecipient(options.to);
+
+      const amountError = validateSolAmount(options.amount);
+      if (amountError !== true) {
+        invalidInput(amountError);
+        return;
+      }
+      const lamports = solToLamports(options.amount);
+
+      const sender = state.wallet.getKeypair().publicKey;
+      const feePayer = options.feePayer
+        ? (await loadSigner(options.feePayer)).getKeypair()
+        : undefined;
+      const transferManager = new TransferManager(
+        state.connection,
+        managerOptions
+      );
+      const computeBudget = await resolveComputeBudget(options, [
+        sender,
+        recipient,
+      ]);
+
+      let nonce: DurableNonceParams | undefined;
+      if (options.nonce) {
+        if (!validatePublicKey(options.nonce)) {
+          invalidInput("Invalid nonce account address");
+          return;
+        }
+        nonce = {
+          nonceAccount: new PublicKey(options.nonce),
+          nonceAuthority: state.wallet.getKeypair().publicKey,
+        };
+      }
+
+      const recipientAnalysis = await checkRecipient(
+        transferManager,
+        recipient,
+        lamports
+      );
+
+      if (options.dryRun) {
+        const simulation = await transferManager.simulateTransfer(
+          sender,
+          recipient,
+          lamports,
+          nonce,
+          computeBudget,
+          feePayer?.publicKey
+        );
+        printSimulation(simulation);
+        if (simulation.error) {
+          process.exitCode = EXIT_CODES.TRANSACTION_FAILED;
+        }
+        emitResult({ simulation, recipient: recipientAnalysis });
+        return;
+      }
+
+      assertRecipientAllowed(recipientAnalysis, options.force);
+
+      if (state.network.cluster === "mainnet-beta" && !options.confirmMainnet) {
+        const fee = await transferManager.estimateTransactionFee(
+          sender,
+          recipient,
+          lamports,
+          computeBudget,
+          feePayer?.publicKey
+        );
+        if (
+          !(await confirmMainnetTransfer(
+            `${formatBalance(lamports)} SOL → ${withLabel(
+              recipient.toBase58()
+            )} (${describeFee(fee, computeBudget)}${
+              feePayer ? ` paid by ${feePayer.publicKey.toBase58()}` : ""
+            })`
+          ))
+        ) {
+          logger.info("❌ Transaction cancelled");
+          return;
+        }
+      }
+
+      const details = await transferManager.sendSOL(
+        state.wallet.getKeypair(),
+        recipient,
+        lamports,
+        nonce,
+        computeBudget,
+        feePayer
+      );
+      printSendResult(details);
+      emitSendResult(details, { recipient: recipientAnalysis });
+    } catch (error) {
+      reportError(error);
+    }
+  });
+
+withWalletOptions(program.command("tokens"))
+  .description("List all token accounts owned by a wallet")
+  .option("--address <address>", "Show tokens of any address without its key")
+  .action(async (options) => {
+    try {
+      let owner: PublicKey;
+      if (options.address) {
+        if (!validatePublicKey(options.address)) {
+          invalidInput("Invalid address");
+          return;
+        }
+        owner = new PublicKey(options.address);
+      } else {
+        state.wallet = await loadWallet(options);
+        owner = state.wallet.getKeypair().publicKey;
+      }
+
+      const portfolio = await new PortfolioManager(
+        state.connection
+      ).getPortfolio(owner);
+      printPortfolio(portfolio);
+      emitResult({ portfolio });
+    } catch (error) {
+      reportError(error);
+    }
+  });
+
+withWalletOptions(program.command("history"))
+  .description("Show SOL transaction history for a wallet")
+  .option("--address <address>", "Show history of any address without its key")
+  .option("--before <signature>", "Start searching before this signature")
+  .option("--until <signature>", "Stop searching at this signature")
+  .option("-l, --limit <count>", "Maximum number of transactions", "20")
+  .option("--outgoing", "Only show outgoing transfers")
+  .option("--incoming", "Only show incoming transfers")
+  .option("--failed", "Only show failed transactions")
+  .option("--succeeded", "Only show successful transactions")
+  .option("--format <format>", "Output format (table or csv)", "table")
+  .action(async (options) => {
+    const limit = parseInt(options.limit, 10);
+    if (!(limit > 0)) {
+      invalidInput("--limit must be a positive number");
+      return;
+    }
+    if (options.format !== "table" && options.format !== "csv") {
+      invalidInput("--format must be table or csv");
+      return;
+    }
+    if (options.outgoing && options.incoming) {
+      invalidInput("Use only one of --outgoing and --incoming");
+      return;
+    }
+    if (options.failed && options.succeeded) {
+      invalidInput("Use only one of --failed and --succeeded");
+      return;
+    }
+    if (options.format === "csv" && isJsonOutput()) {
+      invalidInput("Use either --format csv or --json");
+      return;
+    }
+
+    try {
+      let address: PublicKey;
+      if (options.address) {
+        if (!validatePublicKey(options.address)) {
+          invalidInput("Invalid address");
+          return;
+        }
+        address = new PublicKey(options.address);
+      } else {
+        state.wallet = await loadWallet(options);
+        address = state.wallet.getKeypair().publicKey;
+      }
+
+      const historyOptions: HistoryOptions = {
+        before: options.before,
+        until: options.until,
+        limit,
+      };
+      if (options.outgoing) historyOptions.direction = "outgoing";
+      if (options.incoming) historyOptions.direction = "incoming";
+      if (options.failed) historyOptions.status = "failed";
+      if (options.succeeded) historyOptions.status = "confirmed";
+
+      const page = await new HistoryManager(state.connection).getHistory(
+        address,
+        historyOptions
+      );
+
+      if (options.format === "csv") {
+        process.stdout.write(historyToCsv(page.transactions) + "\n");
+        return;
+      }
+
+      printHistoryTable(page.transactions);
+      if (page.nextBefore) {
+        logger.info(`\n💡 Next page: history --before ${page.nextBefore}`);
+      }
+      emitResult({
+        address: address.toBase58(),
+        transactions: page.transactions,
+        nextBefore: page.nextBefore,
+      });
+    } catch (error) {
+      reportError(error);
+    }
+  });
+
+function printWatchEvent(event: WatchEvent) {
+  const time = new Date().toISOString().replace("T", " ").slice(0, 19);
+  const who = displayAddress(event.address);
+
+  if (event.type === "balance") {
+    const sign = event.delta > 0n ? "+" : "-";
+    const magnitude = event.delta > 0n ? event.delta : -event.delta;
+    logger.info(
+      `${time} 💰 ${who}: ${formatBalance(
+        event.lamports
+      )} SOL (${sign}${formatBalance(magnitude)})`
+    );
+    return;
+  }
+
+  const tx = event.transaction;
+  const counterparty = tx.counterparty ? withLabel(tx.counterparty) : "unknown";
+  let summary = `${time} ➖ ${who}: other activity`;
+  if (tx.direction === "incoming") {
+    summary = `${time} 📥 ${who} received ${formatBalance(
+      tx.amount
+    )} SOL from ${counterparty}`;
+  } else if (tx.direction === "outgoing") {
+    summary = `${time} 📤 ${who} sent ${formatBalance(
+      tx.amount
+    )} SOL to ${counterparty}`;
+  }
+  if (tx.status === "failed") {
+    summary += " ❌ failed";
+  }
+  logger.info(summary);
+  logger.info(`   🔗 ${explorerUrl(tx.signature)}`);
+}
+
+withWalletOptions(program.command("watch [addresses...]"))
+  .description(
+    "Stream balance changes and transfers of wallets in real time (Ctrl+C to stop)"
+  )
+  .option(
+    "--exec <command>",
+    "Run a shell command on each event (event JSON on stdin and in $SOL_TX_EVENT)"
+  )
+  .option("--webhook <url>", "POST each event as JSON to this URL")
+  .option(
+    "--ws-url <url>",
+    "Websocket endpoint (derived from the RPC URL by default)"
+  )
+  .action(async (addresses: string[], options) => {
+    try {
+      const webhook = options.webhook
+        ? validateWebhookUrl(options.webhook)
+        : undefined;
+      if (options.wsUrl && !/^wss?:\/\//.test(options.wsUrl)) {
+        invalidInput("--ws-url must start with ws:// or wss://");
+        return;
+      }
+
+      let watched: PublicKey[];
+      if (addresses.length > 0) {
+        const unique = new Set(
+          addresses.map((address) => resolveRecipient(address).toBase58())
+        );
+        watched = [...unique].map((address) => new PublicKey(address));
+      } else {
+        state.wallet = await loadWallet(options);
+        watched = [state.wallet.getKeypair().publicKey];
+      }
+
+      // Hooks run one at a time, in the order the events arrived
+      let hooks = Promise.resolve();
+      const notify = async (event: WatchEvent) => {
+        if (options.exec) {
+          try {
+            const code = await runEventCommand(
+              options.exec,
+              event,
+              isJsonOutput() ? "stderr" : "inherit"
+            );
+            if (code !== 0) {
+              logger.error(`⚠️  --exec command exited with code ${code}`);
+            }
+          } catch (error) {
+            const message = error instanceof Error ? error.message : error;
+            logger.error(`⚠️  --exec command failed: ${message}`);
+          }
+        }
+        if (webhook) {
+          try {
+            await postWebhook(webhook, event);
+          } catch (error) {
+            const message = error instanceof Error ? error.message : error;
+            logger.error(`⚠️  Webhook failed: ${message}`);
+          }
+        }
+      };
+
+      const watcher = new AccountWatcher(state.connection, {
+        ...managerOptions,
+        wsEndpoint: options.wsUrl,
+      });
+      await watcher.start(watched, (event) => {
+        if (isJsonOutput()) {
+          printJsonLine(event);
+        } else {
+          printWatchEvent(event);
+        }
+        hooks = hooks.then(() => notify(event));
+      });
+
+      logger.info(`👀 Watching on ${state.network.cluster}:`);
+      watched.forEach((address) => {
+        logger.info(
+          `   ${withLabel(address.toBase58())}: ${formatBalance(
+            watcher.getBalance(address) ?? 0n
+          )} SOL`
+        );
+      });
+      logger.info("Press Ctrl+C to stop.\n");
+
+      process.once("SIGINT", async () => {
+        await watcher.stop();
+        await hooks;
+        logger.info("\n👋 Stopped watching");
+        process.exit(process.exitCode ?? 0);
+      });
+    } catch (error) {
+      reportError(error, "Watch failed");
+      showErrorHelp(error);
+    }
+  });
+
+withWalletOptions(program.command("send-token"))
+  .description("Send SPL tokens (Token or Token-2022) to another wallet")
+  .requiredOption("--mint <address>", "Token mint address")
+  .requiredOption(
+    "-t, --to <address>",
+    "Recipient wallet public key or contact label"
+  )
+  .requiredOption("-a, --amount <amount>", "Amount to send (in tokens)")
+  .option(
+    "--confirm-mainnet",
+    "Skip the interactive confirmation for mainnet-beta transfers"
+  )
+  .action(async (options) => {
+    if (!validatePublicKey(options.mint)) {
+      invalidInput("Invalid mint address");
+      return;
+    }
+    try {
+      state.wallet = await loadWallet(options);
+      const recipient = resolveRecipient(options.to);
+
+      const tokenManager = new TokenTransferManager(
+        state.connection,
+        managerOptions
+      );
+      const plan = await tokenManager.prepareTransfer(
+        state.wallet.getKeypair().publicKey,
+        new PublicKey(options.mint),
+        recipient,
+        options.amount
+      );
+      showTokenTransferPlan(plan);
+
+      if (
+        !options.confirmMainnet &&
+        !(await confirmMainnetTransfer(
+          `${options.amount} of ${options.mint} → ${withLabel(
+            recipient.toBase58()
+          )}`
+        ))
+      ) {
+        logger.info("❌ Transaction cancelled");
+        return;
+      }
+
+      const signature = await tokenManager.sendTransfer(
+        state.wallet.getKeypair(),
+        plan
+      );
+      logger.info(`✅ Token transfer sent successfully!`);
+      logger.info(`🔗 Transaction signature: ${signature}`);
+      logger.info(`🌐 View on Solana Explorer: ${explorerUrl(signature)}`);
+      emitResult({
+        signature,
+        mint: plan.mint.toBase58(),
+        program: plan.programId.toBase58(),
+        amount: plan.amount,
+        decimals: plan.decimals,
+        recipient: plan.recipient.toBase58(),
+        destinationTokenAccount: plan.destinationTokenAccount.toBase58(),
+        createdDestinationAccount: plan.createsDestinationAccount,
+      });
+    } catch (error) {
+      reportError(error);
+      showErrorHelp(error);
+    }
+  });
+
+withWalletOptions(program.command("send-batch <csv>"))
+  .description(
+    "Pay many recipients from a CSV file (address,amount[,label]), resumable"
+  )
+  .option("--journal <file>", "Progress journal (default: <csv>.journal.json)")
+  .option("--results <file>", "Results CSV (default: <csv>.results.csv)")
+  .option(
+    "--lookup-table <address>",
+    "Send v0 transactions that reference recipients through this lookup table"
+  )
+  .option("-y, --yes", "Skip the confirmation prompt")
+  .option(
+    "--confirm-mainnet",
+    "Skip the interactive confirmation for mainnet-beta transfers"
+  )
+  .action(async (csvPath: string, options) => {
+    try {
+      const content = fs.readFileSync(csvPath, "utf8");
+      const { rows, errors } = parsePayoutCsv(content);
+      if (errors.length > 0) {
+        invalidInput(
+          `${errors.length} invalid row(s) in ${csvPath}:\n${errors
+            .map((error) => `   ${error}`)
+            .join("\n")}`
+        );
+        return;
+      }
+
+      if (options.lookupTable && !validatePublicKey(options.lookupTable)) {
+        invalidInput("Invalid lookup table address");
+        return;
+      }
+
+      state.wallet = await loadWallet(options);
+      const sender = state.wallet.getKeypair().publicKey;
+      const journalPath = options.journal ?? `${csvPath}.journal.json`;
+      const resultsPath =
+        options.results ?? `${csvPath.replace(/\.csv$/i, "")}.results.csv`;
+
+      const csvHash = hashPayoutCsv(content);
+      let journal = loadJournal(journalPath);
+      const lookupTableAddresses = getRunLookupTables(
+        journal,
+        options.lookupTable
+      );
+      const batchManager = new BatchPayoutManager(
+        state.connection,
+        await new LookupTableManager(
+          state.connection,
+          managerOptions
+        ).loadLookupTables(
+          lookupTableAddresses.map((address) => new PublicKey(address))
+        )
+      );
+
+      if (journal) {
+        assertJournalMatches(
+          journalPath,
+          journal,
+          csvHash,
+          sender,
+          state.network.cluster
+        );
+        logger.info(
+          `🔁 Resuming payout run from ${journalPath}: ${
+            summarizeJournal(journal).confirmed
+          }/${journal.batches.length} transaction(s) already confirmed`
+        );
+      } else {
+        const plan = await batchManager.plan(sender, rows);
+
+        logger.info(`\n📦 Batch payout (${state.network.cluster})`);
+        logger.info(`   Payouts: ${rows.length}`);
+        logger.info(
+          `   Total amount: ${formatBalance(plan.totalLamports)} SOL`
+        );
+        logger.info(
+          `   Transactions: ${plan.batches.length}${
+            lookupTableAddresses.length > 0
+              ? ` (v0, lookup table ${lookupTableAddresses.join(", ")})`
+              : ""
+          }`
+        );
+        logger.info(
+          `   Estimated fees: ${formatBalance(plan.totalFeeLamports)} SOL`
+        );
+        const balance = await batchManager.checkBalance(sender, plan);
+        logger.info(`   Balance: ${formatBalance(balance)} SOL`);
+
+        if (
+          !(await confirmUnlessYes(`Send ${rows.length} payouts?`, options.yes))
+        ) {
+          logger.info("❌ Batch payout cancelled");
+          return;
+        }
+        if (
+          !options.confirmMainnet &&
+          !(await confirmMainnetTransfer(
+            `${rows.length} payouts totalling ${formatBalance(
+              plan.totalLamports
+            )} SOL`
+          ))
+        ) {
+          logger.info("❌ Batch payout cancelled");
+          return;
+        }
+
+        journal = batchManager.createJournal(
+          csvHash,
+          sender,
+          state.network.cluster,
+          rows,
+          plan
+        );
+        saveJournal(journalPath, journal);
+      }
+
+      const icons = {
+        pending: "⏳",
+        sent: "📡",
+        confirmed: "✅",
+        failed: "❌",
+      };
+      await batchManager.run(
+        state.wallet.getKeypair(),
+        rows,
+        journal,
+        journalPath,
+        (batch) => {
+          logger.info(
+            `${icons[batch.status]} Transaction ${batch.index + 1}/${
+              journal!.batches.length
+            } (${batch.rows.length} payouts): ${batch.status}${
+              batch.signature ? ` ${batch.signature}` : ""
+            }${batch.error && batch.status !== "confirmed" ? ` - ${batch.error}` : ""}`
+          );
+        }
+      );
+
+      fs.writeFileSync(resultsPath, payoutResultsToCsv(rows, journal) + "\n");
+      const summary = summarizeJournal(journal);
+      logger.info(
+        `\n📊 ${summary.confirmed} confirmed, ${summary.failed} failed, ${summary.unresolved} unresolved`
+      );
+      logger.info(`📄 Results written to ${resultsPath}`);
+      if (summary.unresolved + summary.retryable > 0) {
+        logger.info(
+          "💡 Run the same command again to resume; confirmed payouts are never resent."
+        );
+      }
+      if (summary.failedOnChain > 0) {
+        logger.info(
+          `⚠️  ${summary.failedOnChain} transaction(s) failed on chain and are not retried. Fix the cause, then pay their rows (marked failed in ${resultsPath}) with a new CSV file.`
+        );
+      }
+      emitResult({
+        journal: journalPath,
+        results: resultsPath,
+        confirmed: summary.confirmed,
+        failed: summary.failed,
+        unresolved: summary.unresolved,
+        batches: journal.batches,
+      });
+    } catch (error) {
+      reportError(error);
+      showErrorHelp(error);
+    }
+  });
+
+function showTransactionSummary(title: string, transaction: Transaction) {
+  logger.info(`\n📋 ${title}`);
+  describeTransaction(transaction).forEach((line) => logger.info(`   ${line}`));
+}
+
+function outputTransaction(transaction: Transaction, out?: string) {
+  if (out) {
+    writeTransaction(out, transaction);
+    logger.info(`💾 Transaction written to ${out}`);
+  } else {
+    logger.info(`\n${serializeTransaction(transaction)}`);
+  }
+}
+
+withPriorityFeeOptions(program.command("build"))
+  .description("Build an unsigned SOL transfer for offline signing")
+  .requiredOption(
+    "--from <address>",
+    "Sender public key (no private key needed)"
+  )
+  .requiredOption("-t, --to <address>", "Recipient public key")
+  .requiredOption("-a, --amount <amount>", "Amount to send (SOL)")
+  .option(
+    "-o, --out <file>",
+    "Write the transaction to a file instead of stdout"
+  )
+  .option(
+    "--nonce <address>",
+    "Use a durable nonce account so the transaction does not expire"
+  )
+  .option(
+    "--nonce-authority <address>",
+    "Nonce authority public key (defaults to --from)"
+  )
+  .option(
+    "--fee-payer <address>",
+    "Public key of the wallet paying the fee (defaults to --from)"
+  )
+  .action(async (options) => {
+    if (!validatePublicKey(options.from) || !validatePublicKey(options.to)) {
+      invalidInput("Invalid sender or recipient public key");
+      return;
+    }
+    if (
+      (options.nonce && !validatePublicKey(options.nonce)) ||
+      (options.nonceAuthority && !validatePublicKey(options.nonceAuthority))
+    ) {
+      invalidInput("Invalid nonce account or nonce authority");
+      return;
+    }
+    if (options.feePayer && !validatePublicKey(options.feePayer)) {
+      invalidInput("Invalid fee payer public key");
+      return;
+    }
+
+    const amountError = validateSolAmount(options.amount);
+    if (amountError !== true) {
+      invalidInput(amountError);
+      return;
+    }
+
+    try {
+      const from = new PublicKey(options.from);
+      const to = new PublicKey(options.to);
+      const computeBudget = await resolveComputeBudget(options, [from, to]);
+      const transaction = await new TransferManager(
+        state.connection,
+        managerOptions
+      ).buildTransfer(
+        from,
+        to,
+        solToLamports(options.amount),
+        options.nonce
+          ? {
+              nonceAccount: new PublicKey(options.nonce),
+              nonceAuthority: new PublicKey(
+                options.nonceAuthority ?? options.from
+              ),
+            }
+          : undefined,
+        computeBudget,
+        options.feePayer ? new PublicKey(options.feePayer) : undefined
+      );
+
+      showTransactionSummary("Unsigned transaction", transaction);
+      if (!options.nonce) {
+        logger.info(
+          "\n⚠️  The blockhash expires in about a minute: sign and broadcast promptly, or use --nonce."
+        );
+      }
+      outputTransaction(transaction, options.out);
+      emitResult({
+        transaction: serializeTransaction(transaction),
+        out: options.out,
+        feePayer: transaction.feePayer?.toBase58(),
+        requiredSigners: getRequiredSigners(transaction).map((key) =>
+          key.toBase58()
+        ),
+        lastValidBlockHeight: transaction.lastValidBlockHeight,
+      });
+    } catch (error) {
+      reportError(error, "Error building transaction");
+      showErrorHelp(error);
+    }
+  });
+
+withWalletOptions(program.command("sign <transaction>"))
+  .description(
+    "Sign a transaction offline (base64 or file); no network access is used"
+  )
+  .option("-o, --out <file>", "Write the signed transaction to a file")
+  .option("-y, --yes", "Sign without asking for confirmation")
+  .action(async (input: string, options) => {
+    try {
+      const transaction = readTransaction(input);
+      showTransactionSummary("Transaction to sign", transaction);
+
+      const wallet = await loadWallet(options);
+      if (
+        !(await confirmUnlessYes(
+          `Sign this transaction with ${wallet.getPublicKey()}?`,
+          options.yes
+        ))
+      ) {
+        logger.info("❌ Signing cancelled");
+        return;
+      }
+
+      const signature = signOffline(transaction, wallet.getKeypair());
+      logger.info(`\n✍️  Signature: ${wallet.getPublicKey()}=${signature}`);
+
+      const missing = getMissingSigners(transaction);
+      if (missing.length > 0) {
+        logger.info(
+          `⏳ Still missing signatures from: ${missing
+            .map((key) => key.toBase58())
+            .join(", ")}`
+        );
+        logger.info(
+          "   Pass the transaction on to the next signer, or attach their signatures with broadcast -s"
+        );
+      } else {
+        logger.info("✅ All required signatures present: ready to broadcast");
+      }
+      outputTransaction(transaction, options.out);
+      emitResult({
+        signer: wallet.getPublicKey(),
+        signature,
+        missingSigners: missing.map((key) => key.toBase58()),
+        transaction: serializeTransaction(transaction),
+      });
+    } catch (error) {
+      reportError(error, "Error signing transaction");
+    }
+  });
+
+program
+  .command("inspect <transaction>")
+  .description(
+    "Show what a transaction (base64 or file) does and which signatures it still needs"
+  )
+  .option(
+    "-s, --signature <pubkey=signature...>",
+    "Attach signatures produced by the sign command"
+  )
+  .action((input: string, options) => {
+    try {
+      const transaction = readTransaction(input);
+      (options.signature ?? []).forEach((pair: string) =>
+        addSignature(transaction, pair)
+      );
+      showTransactionSummary("Transaction", transaction);
+
+      const missing = getMissingSigners(transaction);
+      if (missing.length === 0) {
+        logger.info("\n✅ All required signatures present: ready to broadcast");
+      }
+      emitResult({
+        feePayer: transaction.feePayer?.toBase58(),
+        requiredSigners: getRequiredSigners(transaction).map((key) =>
+          key.toBase58()
+        ),
+        missingSigners: missing.map((key) => key.toBase58()),
+      });
+    } catch (error) {
+      reportError(error, "Error reading transaction");
+    }
+  });
+
+program
+  .command("broadcast <transaction>")
+  .description("Submit a signed transaction (base64 or file) to the network")
+  .option(
+    "-s, --signature <pubkey=signature...>",
+    "Attach signatures produced by the sign command"
+  )
+  .action(async (input: string, options) => {
+    try {
+      const transaction = readTransaction(input);
+      (options.signature ?? []).forEach((pair: string) =>
+        addSignature(transaction, pair)
+      );
+      showTransactionSummary("Transaction to broadcast", transaction);
+
+      const missing = getMissingSigners(transaction);
+      if (missing.length > 0) {
+        invalidInput(
+          `Cannot broadcast: missing signatures from ${missing
+            .map((key) => key.toBase58())
+            .join(", ")}`
+        );
+        return;
+      }
+
+      if (
+        !(await confirmMainnetTransfer(
+          `Broadcast transaction paid by ${transaction.feePayer?.toBase58()}`
+        ))
+      ) {
+        logger.info("❌ Broadcast cancelled");
+        return;
+      }
+
+      const details = await new TransferManager(
+        state.connection,
+        managerOptions
+      ).sendSignedTransaction(transaction);
+      printSendResult(details);
+      emitSendResult(details);
+    } catch (error) {
+      reportError(error, "Error broadcasting transaction");
+      showErrorHelp(error);
+    }
+  });
+
+function printNonceInfo(info: NonceAccountInfo) {
+  logger.info(`🔒 Nonce account: ${info.address}`);
+  logger.info(`   Authority: ${info.authority}`);
+  logger.info(`   Current nonce: ${info.nonce}`);
+  logger.info(`   Balance: ${formatBalance(info.lamports)} SOL`);
+}
+
+function parseNonceAddress(address: string): PublicKey {
+  if (!validatePublicKey(address)) {
+    throw new CommandError("Invalid nonce account address", "INVALID_INPUT");
+  }
+  return new PublicKey(address);
+}
+
+const nonceCommand = program
+  .command("nonce")
+  .description("Manage durable nonce accounts");
+
+withWalletOptions(nonceCommand.command("create"))
+  .description("Create a nonce account funded by the wallet")
+  .option("--authority <address>", "Nonce authority (defaults to the wallet)")
+  .action(async (options) => {
+    try {
+      if (options.authority && !validatePublicKey(options.authority)) {
+        invalidInput("Invalid authority address");
+        return;
+      }
+
+      state.wallet = await loadWallet(options);
+      const nonceManager = new NonceManager(state.connection, managerOptions);
+      const { address, signature } = await nonceManager.createNonceAccount(
+        state.wallet.getKeypair(),
+        options.authority ? new PublicKey(options.authority) : undefined
+      );
+
+      const info = await nonceManager.getNonceInfo(address);
+      logger.info(`✅ Nonce account created!`);
+      printNonceInfo(info);
+      logger.info(`🔗 Transaction signature: ${signature}`);
+      logger.info(`💡 Send with it using: send --nonce ${address.toBase58()}`);
+      emitResult({ nonceAccount: info, signature });
+    } catch (error) {
+      reportError(error, "Error creating nonce account");
+      showErrorHelp(error);
+    }
+  });
+
+nonceCommand
+  .command("show <address>")
+  .description("Show the current nonce and authority of a nonce account")
+  .action(async (address: string) => {
+    try {
+      const info = await new NonceManager(
+        state.connection,
+        managerOptions
+      ).getNonceInfo(parseNonceAddress(address));
+      printNonceInfo(info);
+      emitResult({ nonceAccount: info });
+    } catch (error) {
+      reportError(error);
+    }
+  });
+
+withWalletOptions(nonceCommand.command("advance <address>"))
+  .description("Advance the stored nonce (wallet must be the authority)")
+  .action(async (address: string, options) => {
+    try {
+      state.wallet = await loadWallet(options);
+      const nonceManager = new NonceManager(state.connection, managerOptions);
+      const nonceAccount = parseNonceAddress(address);
+      const signature = await nonceManager.advance(
+        state.wallet.getKeypair(),
+        nonceAccount
+      );
+
+      const info = await nonceManager.getNonceInfo(nonceAccount);
+      logger.info(`✅ Nonce advanced`);
+      printNonceInfo(info);
+      logger.info(`🔗 Transaction signature: ${signature}`);
+      emitResult({ nonceAccount: info, signature });
+    } catch (error) {
+      reportError(error, "Error advancing nonce");
+    }
+  });
+
+withWalletOptions(nonceCommand.command("authorize <address> <newAuthority>"))
+  .description("Change the authority of a nonce account")
+  .action(async (address: string, newAuthority: string, options) => {
+    try {
+      if (!validatePublicKey(newAuthority)) {
+        invalidInput("Invalid new authority address");
+        return;
+      }
+
+      state.wallet = await loadWallet(options);
+      const signature = await new NonceManager(
+        state.connection,
+        managerOptions
+      ).authorize(
+        state.wallet.getKeypair(),
+        parseNonceAddress(address),
+        new PublicKey(newAuthority)
+      );
+
+      logger.info(`✅ Nonce authority changed to ${newAuthority}`);
+      logger.info(`🔗 Transaction signature: ${signature}`);
+      emitResult({ authority: newAuthority, signature });
+    } catch (error) {
+      reportError(error, "Error changing nonce authority");
+    }
+  });
+
+withWalletOptions(nonceCommand.command("withdraw <address>"))
+  .description("Withdraw SOL from a nonce account")
+  .requiredOption("-a, --amount <amount>", "Amount to withdraw (SOL)")
+  .option("-t, --to <address>", "Recipient (defaults to the wallet)")
+  .action(async (address: string, options) => {
+    try {
+      const amountError = validateSolAmount(options.amount);
+      if (amountError !== true) {
+        invalidInput(amountError);
+        return;
+      }
+      if (options.to && !validatePublicKey(options.to)) {
+        invalidInput("Invalid recipient public key");
+        return;
+      }
+
+      state.wallet = await loadWallet(options);
+      const lamports = solToLamports(options.amount);
+      const recipient = options.to
+        ? new PublicKey(options.to)
+        : state.wallet.getKeypair().publicKey;
+      const signature = await new NonceManager(
+        state.connection,
+        managerOptions
+      ).withdraw(
+        state.wallet.getKeypair(),
+        parseNonceAddress(address),
+        recipient,
+        lamports
+      );
+
+      logger.info(
+        `✅ Withdrew ${formatBalance(lamports)} SOL from nonce account`
+      );
+      logger.info(`🔗 Transaction signature: ${signature}`);
+      emitResult({ lamports, to: recipient.toBase58(), signature });
+    } catch (error) {
+      reportError(error, "Error withdrawing from nonce account");
+    }
+  });
+
+withWalletOptions(nonceCommand.command("close <address>"))
+  .description("Close a nonce account, withdrawing its whole balance")
+  .option("-t, --to <address>", "Recipient (defaults to the wallet)")
+  .action(async (address: string, options) => {
+    try {
+      if (options.to && !validatePublicKey(options.to)) {
+        invalidInput("Invalid recipient public key");
+        return;
+      }
+
+      state.wallet = await loadWallet(options);
+      const recipient = options.to
+        ? new PublicKey(options.to)
+        : state.wallet.getKeypair().publicKey;
+      const signature = await new NonceManager(
+        state.connection,
+        managerOptions
+      ).withdraw(
+        state.wallet.getKeypair(),
+        parseNonceAddress(address),
+        recipient
+      );
+
+      logger.info(`✅ Nonce account closed`);
+      logger.info(`🔗 Transaction signature: ${signature}`);
+      emitResult({ to: recipient.toBase58(), signature });
+    } catch (error) {
+      reportError(error, "Error closing nonce account");
+    }
+  });
+
+function describeStakeState(
+  info: StakeAccountInfo,
+  progress: EpochProgress
+): string {
+  const nextEpoch = `epoch ${progress.epoch + 1} (~${formatDuration(
+    progress.secondsRemaining
+  )})`;
+  switch (info.state) {
+    case "initialized":
+      return "initialized, not delegated";
+    case "activating":
+      return `activating, active from ${nextEpoch}`;
+    case "active":
+      return `active since epoch ${info.activationEpoch ?? 0}`;
+    case "deactivating":
+      return `deactivating, withdrawable from ${nextEpoch}`;
+    case "inactive":
+      return "inactive";
+  }
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) {
+    return `${Math.round(seconds)}s`;
+  }
+  const days = Math.floor(seconds / 86400);
+  if (days >= 365) {
+    return `${Math.round(days / 365).toLocaleString()} years`;
+  }
+  if (days > 0) {
+    return `${days}d ${Math.floor((seconds % 86400) / 3600)}h`;
+  }
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.round((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
+
+function printStakeAccount(info: StakeAccountInfo, progress: EpochProgress) {
+  logger.info(`🥩 Stake account: ${info.address}`);
+  logger.info(`   State: ${describeStakeState(info, progress)}`);
+  logger.info(`   Balance: ${formatBalance(info.lamports)} SOL`);
+  if (info.voter) {
+    logger.info(`   Validator: ${withLabel(info.voter)}`);
+    logger.info(`   Delegated: ${formatBalance(info.delegatedStake!)} SOL`);
+  }
+  logger.info(`   Withdrawable: ${formatBalance(info.withdrawable)} SOL`);
+  logger.info(`   Stake authority: ${info.staker}`);
+  logger.info(`   Withdraw authority: ${info.withdrawer}`);
+  if (info.lockup) {
+    logger.info(
+      `   🔒 Locked until epoch ${info.lockup.epoch} (custodian: ${info.lockup.custodian})`
+    );
+  }
+}
+
+function printEpochProgress(progress: EpochProgress) {
+  logger.info(
+    `🕒 Epoch ${progress.epoch}: ${(
+      (progress.slotIndex / progress.slotsInEpoch) *
+      100
+    ).toFixed(1)}% complete, next epoch in ~${formatDuration(
+      progress.secondsRemaining
+    )}`
+  );
+}
+
+function printValidators(validators: ValidatorSummary[]) {
+  logger.info(
+    `  ${"Vote account".padEnd(44)} ${"Commission".padStart(10)} ${"Active stake (SOL)".padStart(22)}`
+  );
+  validators.forEach((validator) => {
+    logger.info(
+      `  ${validator.votePubkey.padEnd(44)} ${`${validator.commission}%`.padStart(
+        10
+      )} ${formatBalance(validator.activatedStake)
+        .split(".")[0]
+        .padStart(22)}${validator.delinquent ? "  ⚠️ delinquent" : ""}`
+    );
+  });
+}
+
+function parseStakeAddress(address: string): PublicKey {
+  if (!validatePublicKey(address)) {
+    throw new CommandError("Invalid stake account address", "INVALID_INPUT");
+  }
+  return new PublicKey(address);
+}
+
+const stakeCommand = program
+  .command("stake")
+  .description("Stake SOL with validators");
+
+withWalletOptions(stakeCommand.command("create"))
+  .description("Create a stake account funded by the wallet")
+  .requiredOption("-a, --amount <amount>", "Amount to stake (SOL)")
+  .option(
+    "--validator <vote-account>",
+    "Delegate to this vote account (or contact label) right away"
+  )
+  .option(
+    "--confirm-mainnet",
+    "Skip the interactive confirmation on mainnet-beta"
+  )
+  .action(async (options) => {
+    try {
+      const amountError = validateSolAmount(options.amount);
+      if (amountError !== true) {
+        invalidInput(amountError);
+        return;
+      }
+      const lamports = solToLamports(options.amount);
+      const votePubkey = options.validator
+        ? resolveRecipient(options.validator)
+        : undefined;
+
+      state.wallet = await loadWallet(options);
+      if (
+        !options.confirmMainnet &&
+        !(await confirmMainnetTransfer(
+          `Stake ${formatBalance(lamports)} SOL${
+            votePubkey ? ` with ${withLabel(votePubkey.toBase58())}` : ""
+          }`
+        ))
+      ) {
+        logger.info("❌ Staking cancelled");
+        return;
+      }
+
+      const stakeManager = new StakeManager(state.connection, managerOptions);
+      const { address, signature } = await stakeManager.createStakeAccount(
+        state.wallet.getKeypair(),
+        lamports,
+        votePubkey
+      );
+
+      const [info, progress] = await Promise.all([
+        stakeManager.getStakeAccount(address),
+        stakeManager.getEpochProgress(),
+      ]);
+      logger.info(`✅ Stake account created!`);
+      printStakeAccount(info, progress);
+      logger.info(`🔗 Transaction signature: ${signature}`);
+      if (!votePubkey) {
+        logger.info(
+          `💡 Delegate it with: stake delegate ${address.toBase58()} <vote-account>`
+        );
+      }
+      emitResult({ stakeAccount: info, signature });
+    } catch (error) {
+      reportError(error, "Error creating stake account");
+      showErrorHelp(error);
+    }
+  });
+
+stakeCommand
+  .command("validators")
+  .description("List validators to delegate to, largest stake first")
+  .option("-l, --limit <count>", "Number of validators to show", "20")
+  .option(
+    "--max-commission <percent>",
+    "Only show validators charging at most this commission"
+  )
+  .option("--include-delinquent", "Also show validators that stopped voting")
+  .action(async (options) => {
+    try {
+      const limit = Number(options.limit);
+      const maxCommission =
+        options.maxCommission === undefined
+          ? 100
+          : Number(options.maxCommission);
+      if (!Number.isInteger(limit) || limit < 1) {
+        invalidInput("--limit must be a positive whole number");
+        return;
+      }
+      if (Number.isNaN(maxCommission)) {
+        invalidInput("--max-commission must be a number");
+        return;
+      }
+
+      const validators = (
+        await new StakeManager(state.connection, managerOptions).getValidators()
+      )
+        .filter(
+          (validator) =>
+            validator.commission <= maxCommission &&
+            (options.includeDelinquent || !validator.delinquent)
+        )
+        .slice(0, limit);
+
+      printValidators(validators);
+      emitResult({ validators });
+    } catch (error) {
+      reportError(error);
+      showErrorHelp(error);
+    }
+  });
+
+withWalletOptions(stakeCommand.command("list"))
+  .description("List the stake accounts a wallet can withdraw from")
+  .option("--address <address>", "List stake accounts of any address")
+  .action(async (options) => {
+    try {
+      let withdrawer: PublicKey;
+      if (options.address) {
+        if (!validatePublicKey(options.address)) {
+          invalidInput("Invalid address");
+          return;
+        }
+        withdrawer = new PublicKey(options.address);
+      } else {
+        state.wallet = await loadWallet(options);
+        withdrawer = state.wallet.getKeypair().publicKey;
+      }
+
+      const stakeManager = new StakeManager(state.connection, managerOptions);
+      const [accounts, progress] = await Promise.all([
+        stakeManager.getStakeAccounts(withdrawer),
+        stakeManager.getEpochProgress(),
+      ]);
+
+      printEpochProgress(progress);
+      if (accounts.length === 0) {
+        logger.info("🥩 No stake accounts found.");
+      }
+      accounts.forEach((info) => {
+        logger.info("");
+        printStakeAccount(info, progress);
+      });
+      emitResult({ epoch: progress, stakeAccounts: accounts });
+    } catch (error) {
+      reportError(error);
+      showErrorHelp(error);
+    }
+  });
+
+stakeCommand
+  .command("show <address>")
+  .description("Show the state and activation progress of a stake account")
+  .action(async (address: string) => {
+    try {
+      const stakeManager = new StakeManager(state.connection, managerOptions);
+      const [info, progress] = await Promise.all([
+        stakeManager.getStakeAccount(parseStakeAddress(address)),
+        stakeManager.getEpochProgress(),
+      ]);
+      printStakeAccount(info, progress);
+      printEpochProgress(progress);
+      emitResult({ epoch: progress, stakeAccount: info });
+    } catch (error) {
+      reportError(error);
+      showErrorHelp(error);
+    }
+  });
+
+withWalletOptions(stakeCommand.command("delegate <address> <vote-account>"))
+  .description("Delegate a stake account to a validator")
+  .action(async (address: string, voteAccount: string, options) => {
+    try {
+      const stakeAccount = parseStakeAddress(address);
+      const votePubkey = resolveRecipient(voteAccount);
+
+      state.wallet = await loadWallet(options);
+      const signature = await new StakeManager(
+        state.connection,
+        managerOptions
+      ).delegate(state.wallet.getKeypair(), stakeAccount, votePubkey);
+
+      logger.info(`✅ Stake delegated to ${withLabel(votePubkey.toBase58())}`);
+      logger.info(`🔗 Transaction signature: ${signature}`);
+      emitResult({ signature });
+    } catch (error) {
+      reportError(error, "Error delegating stake");
+      showErrorHelp(error);
+    }
+  });
+
+withWalletOptions(stakeCommand.command("deactivate <address>"))
+  .description("Stop staking; the SOL becomes withdrawable after the epoch")
+  .action(async (address: string, options) => {
+    try {
+      const stakeAccount = parseStakeAddress(address);
+
+      state.wallet = await loadWallet(options);
+      const stakeManager = new StakeManager(state.connection, managerOptions);
+      const signature = await stakeManager.deactivate(
+        state.wallet.getKeypair(),
+        stakeAccount
+      );
+
+      const progress = await stakeManager.getEpochProgress();
+      logger.info(`✅ Stake deactivating`);
+      logger.info(
+        `⏳ Withdrawable from epoch ${progress.epoch + 1} (~${formatDuration(
+          progress.secondsRemaining
+        )})`
+      );
+      logger.info(`🔗 Transaction signature: ${signature}`);
+      emitResult({ signature });
+    } catch (error) {
+      reportError(error, "Error deactivating stake");
+      showErrorHelp(error);
+    }
+  });
+
+withWalletOptions(stakeCommand.command("split <address>"))
+  .description("Move part of a stake account into a new stake account")
+  .requiredOption("-a, --amount <amount>", "Amount to split off (SOL)")
+  .action(async (address: string, options) => {
+    try {
+      const amountError = validateSolAmount(options.amount);
+      if (amountError !== true) {
+        invalidInput(amountError);
+        return;
+      }
+      const stakeAccount = parseStakeAddress(address);
+
+      state.wallet = await loadWallet(options);
+      const { address: newAccount, signature } = await new StakeManager(
+        state.connection,
+        managerOptions
+      ).split(
+        state.wallet.getKeypair(),
+        stakeAccount,
+        solToLamports(options.amount)
+      );
+
+      logger.info(
+        `✅ Split ${formatBalance(
+          solToLamports(options.amount)
+        )} SOL into ${newAccount.toBase58()}`
+      );
+      logger.info(`🔗 Transaction signature: ${signature}`);
+      emitResult({ stakeAccount: newAccount.toBase58(), signature });
+    } catch (error) {
+      reportError(error, "Error splitting stake");
+      showErrorHelp(error);
+    }
+  });
+
+withWalletOptions(stakeCommand.command("merge <destination> <source>"))
+  .description("Merge the source stake account into the destination")
+  .action(async (destination: string, source: string, options) => {
+    try {
+      const destinationAccount = parseStakeAddress(destination);
+      const sourceAccount = parseStakeAddress(source);
+
+      state.wallet = await loadWallet(options);
+      const signature = await new StakeManager(
+        state.connection,
+        managerOptions
+      ).merge(state.wallet.getKeypair(), destinationAccount, sourceAccount);
+
+      logger.info(`✅ Merged ${source} into ${destination}`);
+      logger.info(`🔗 Transaction signature: ${signature}`);
+      emitResult({ signature });
+    } catch (error) {
+      reportError(error, "Error merging stake accounts");
+      showErrorHelp(error);
+    }
+  });
+
+withWalletOptions(stakeCommand.command("withdraw <address>"))
+  .description("Withdraw SOL from a stake account")
+  .option(
+    "-a, --amount <amount>",
+    "Amount to withdraw (SOL, defaults to everything withdrawable)"
+  )
+  .option("-t, --to <address>", "Recipient (defaults to the wallet)")
+  .option(
+    "--confirm-mainnet",
+    "Skip the interactive confirmation on mainnet-beta"
+  )
+  .action(async (address: string, options) => {
+    try {
+      if (options.amount) {
+        const amountError = validateSolAmount(options.amount);
+        if (amountError !== true) {
+          invalidInput(amountError);
+          return;
+        }
+      }
+      const stakeAccount = parseStakeAddress(address);
+      const to = options.to ? resolveRecipient(options.to) : undefined;
+
+      state.wallet = await loadWallet(options);
+      const stakeManager = new StakeManager(state.connection, managerOptions);
+      const lamports = options.amount
+        ? solToLamports(options.amount)
+        : (await stakeManager.getStakeAccount(stakeAccount)).withdrawable;
+      const recipient = to ?? state.wallet.getKeypair().publicKey;
+      if (
+        !options.confirmMainnet &&
+        !(await confirmMainnetTransfer(
+          `Withdraw ${formatBalance(lamports)} SOL → ${withLabel(
+            recipient.toBase58()
+          )}`
+        ))
+      ) {
+        logger.info("❌ Withdrawal cancelled");
+        return;
+      }
+
+      const signature = await stakeManager.withdraw(
+        state.wallet.getKeypair(),
+        stakeAccount,
+        recipient,
+        lamports
+      );
+
+      logger.info(
+        `✅ Withdrew ${formatBalance(lamports)} SOL from stake account`
+      );
+      logger.info(`🔗 Transaction signature: ${signature}`);
+      emitResult({ lamports, signature });
+    } catch (error) {
+      reportError(error, "Error withdrawing stake");
+      showErrorHelp(error);
+    }
+  });
+
+function printLookupTable(info: LookupTableInfo) {
+  logger.info(`📇 Lookup table: ${info.address}`);
+  logger.info(
+    `   Status: ${
+      info.active ? "active" : `deactivated in slot ${info.deactivationSlot}`
+    }`
+  );
+  logger.info(`   Authority: ${info.authority ?? "none (frozen)"}`);
+  logger.info(`   Addresses (${info.addresses.length}):`);
+  info.addresses.forEach((address, index) => {
+    logger.info(`   ${String(index).padStart(5)}  ${withLabel(address)}`);
+  });
+}
+
+function parseLookupTableAddress(address: string): PublicKey {
+  if (!validatePublicKey(address)) {
+    throw new CommandError("Invalid lookup table address", "INVALID_INPUT");
+  }
+  return new PublicKey(address);
+}
+
+/**
+ * Addresses given as arguments (addresses or contact labels) and the
+ * recipients of a payout CSV
+ */
+function collectAddresses(addresses: string[], csvPath?: string): PublicKey[] {
+  const collected = addresses.map(resolveRecipient);
+  if (csvPath) {
+    const { rows, errors } = parsePayoutCsv(fs.readFileSync(csvPath, "utf8"));
+    if (errors.length > 0) {
+      throw new CommandError(
+        `${errors.length} invalid row(s) in ${csvPath}:\n${errors
+          .map((error) => `   ${error}`)
+          .join("\n")}`,
+        "INVALID_INPUT"
+      );
+    }
+    collected.push(...rows.map((row) => new PublicKey(row.address)));
+  }
+  return collected;
+}
+
+const lookupTableCommand = program
+  .command("lookup-table")
+  .description(
+    "Manage address lookup tables for large multi-recipient transfers"
+  );
+
+withWalletOptions(lookupTableCommand.command("create [addresses...]"))
+  .description("Create a lookup table owned by the wallet")
+  .option("--csv <file>", "Also add the recipients of a payout CSV")
+  .action(async (addresses: string[], options) => {
+    try {
+      const initial = collectAddresses(addresses, options.csv);
+
+      state.wallet = await loadWallet(options);
+      const lookupTableManager = new LookupTableManager(
+        state.connection,
+        managerOptions
+      );
+      const { address, signature } = await lookupTableManager.create(
+        state.wallet.getKeypair()
+      );
+      logger.info(`✅ Lookup table created: ${address.toBase58()}`);
+      logger.info(`🔗 Transaction signature: ${signature}`);
+
+      const signatures =
+        initial.length > 0
+          ? await lookupTableManager.extend(
+              state.wallet.getKeypair(),
+              address,
+              initial
+            )
+          : [];
+      if (signatures.length > 0) {
+        logger.info(`✅ Added ${initial.length} address(es)`);
+      }
+      logger.info(
+        `💡 Use it with: send-batch <csv> --lookup-table ${address.toBase58()}`
+      );
+      emitResult({
+        address: address.toBase58(),
+        signatures: [signature, ...signatures],
+      });
+    } catch (error) {
+      reportError(error, "Error creating lookup table");
+      showErrorHelp(error);
+    }
+  });
+
+withWalletOptions(lookupTableCommand.command("extend <table> [addresses...]"))
+  .description("Add addresses (or contact labels) to a lookup table")
+  .option("--csv <file>", "Add the recipients of a payout CSV")
+  .action(async (table: string, addresses: string[], options) => {
+    try {
+      const lookupTable = parseLookupTableAddress(table);
+      const added = collectAddresses(addresses, options.csv);
+      if (added.length === 0) {
+        invalidInput("Provide addresses to add, or --csv <file>");
+        return;
+      }
+
+      state.wallet = await loadWallet(options);
+      const signatures = await new LookupTableManager(
+        state.connection,
+        managerOptions
+      ).extend(state.wallet.getKeypair(), lookupTable, added);
+
+      logger.info(`✅ Lookup table extended`);
+      signatures.forEach((signature) =>
+        logger.info(`🔗 Transaction signature: ${signature}`)
+      );
+      logger.info("⏳ New addresses can be used from the next slot on");
+      emitResult({ signatures });
+    } catch (error) {
+      reportError(error, "Error extending lookup table");
+      showErrorHelp(error);
+    }
+  });
+
+lookupTableCommand
+  .command("show <table>")
+  .description("Show the authority, status and addresses of a lookup table")
+  .action(async (table: string) => {
+    try {
+      const info = await new LookupTableManager(
+        state.connection,
+        managerOptions
+      ).getLookupTable(parseLookupTableAddress(table));
+      printLookupTable(info);
+      emitResult({ lookupTable: info });
+    } catch (error) {
+      reportError(error);
+      showErrorHelp(error);
+    }
+  });
+
+withWalletOptions(lookupTableCommand.command("deactivate <table>"))
+  .description("Deactivate a lookup table so it can be closed later")
+  .action(async (table: string, options) => {
+    try {
+      const lookupTable = parseLookupTableAddress(table);
+
+      state.wallet = await loadWallet(options);
+      const signature = await new LookupTableManager(
+        state.connection,
+        managerOptions
+      ).deactivate(state.wallet.getKeypair(), lookupTable);
+
+      logger.info(`✅ Lookup table deactivated`);
+      logger.info(
+        "⏳ It can be closed in about 513 slots (~4 minutes) with: lookup-table close"
+      );
+      logger.info(`🔗 Transaction signature: ${signature}`);
+      emitResult({ signature });
+    } catch (error) {
+      reportError(error, "Error deactivating lookup table");
+      showErrorHelp(error);
+    }
+  });
+
+withWalletOptions(lookupTableCommand.command("close <table>"))
+  .description("Close a deactivated lookup table and reclaim its rent")
+  .option("-t, --to <address>", "Rent recipient (defaults to the wallet)")
+  .action(async (table: string, options) => {
+    try {
+      const lookupTable = parseLookupTableAddress(table);
+      const recipient = options.to ? resolveRecipient(options.to) : undefined;
+
+      state.wallet = await loadWallet(options);
+      const signature = await new LookupTableManager(
+        state.connection,
+        managerOptions
+      ).close(state.wallet.getKeypair(), lookupTable, recipient);
+
+      logger.info(`✅ Lookup table closed`);
+      logger.info(`🔗 Transaction signature: ${signature}`);
+      emitResult({ signature });
+    } catch (error) {
+      reportError(error, "Error closing lookup table");
+      showErrorHelp(error);
+    }
+  });
+
+program
+  .command("debug")
+  .description("Run diagnostic tools and show troubleshooting information")
+  .action(async () => {
+    const { debugWallet } = await import("./debug");
+    const report = await debugWallet(state.network);
+    if (report.networkError) {
+      process.exitCode = EXIT_CODES.NETWORK_ERROR;
+    }
+    emitResult({ ...report });
+  });
+
+function printVanityProgress(progress: VanityProgress) {
+  const seconds = progress.elapsedMs / 1000;
+  // Only print every 10 seconds when the line cannot be redrawn
+  if (!process.stderr.isTTY && Math.round(seconds) % 10 !== 0) {
+    return;
+  }
+
+  const expected =
+    progress.rate > 0
+      ? `, expected ~${formatDuration(
+          progress.expectedAttempts / progress.rate
+        )} (50% chance within ${formatDuration(
+          (progress.expectedAttempts * Math.LN2) / progress.rate
+        )})`
+      : "";
+  const line = `🔎 ${progress.attempts.toLocaleString()} keys tried, ${Math.round(
+    progress.rate
+  ).toLocaleString()}/s, ${formatDuration(seconds)} elapsed${expected}`;
+
+  if (process.stderr.isTTY) {
+    process.stderr.write(`\r\x1b[K${line}`);
+  } else {
+    logger.info(line);
+  }
+}
+
+program
+  .command("generate")
+  .description(
+    "Generate a new random wallet, optionally with a vanity prefix or suffix"
+  )
+  .option(
+    "-s, --save <name>",
+    "Save the wallet to the encrypted keystore instead of printing the private key"
+  )
+  .option("-m, --mnemonic", "Generate a BIP39 seed phrase for the wallet")
+  .option("--words <count>", "Number of seed phrase words (12 or 24)", "12")
+  .option("--prefix <chars>", "Search for an address starting with these")
+  .option("--suffix <chars>", "Search for an address ending with these")
+  .option("--ignore-case", "Match --prefix and --suffix case-insensitively")
+  .option(
+    "--threads <count>",
+    "Worker threads for the vanity search (default: one per CPU core)"
+  )
+  .option(
+    "-o, --outfile <path>",
+    "Write the wallet to a keypair file instead of printing the private key"
+  )
+  .option("-f, --force", "Overwrite the --outfile if it already exists")
+  .action(async (options) => {
+    try {
+      if (options.save && state.keystore.has(options.save)) {
+        invalidInput(`Wallet "${options.save}" already exists`);
+        return;
+      }
+      if (options.words !== "12" && options.words !== "24") {
+        invalidInput("--words must be 12 or 24");
+        return;
+      }
+
+      const vanity = Boolean(options.prefix || options.suffix);
+      if (vanity && options.mnemonic) {
+        invalidInput("--prefix and --suffix cannot be used with --mnemonic");
+        return;
+      }
+      if (options.outfile && options.mnemonic) {
+        invalidInput("--outfile cannot be used with --mnemonic");
+        return;
+      }
+      const threads =
+        options.threads !== undefined
+          ? parseInt(options.threads, 10)
+          : undefined;
+      if (threads !== undefined && !(threads > 0)) {
+        invalidInput("--threads must be a positive number");
+        return;
+      }
+      // Fail before a long search rather than after it
+      if (
+        options.outfile &&
+        !options.force &&
+        fs.existsSync(path.resolve(expandHomePath(options.outfile)))
+      ) {
+        invalidInput(
+          `${options.outfile} already exists (use --force to overwrite)`
+        );
+        return;
+      }
+
+      let newWallet: WalletManager;
+      let mnemonic: string | undefined;
+      if (vanity) {
+        validateVanityPattern(options.prefix ?? "", options.ignoreCase);
+        validateVanityPattern(options.suffix ?? "", options.ignoreCase);
+        const expectedAttempts = estimateVanityAttempts(
+          options.prefix,
+          options.suffix,
+          options.ignoreCase
+        );
+        logger.info(
+          `🔎 Searching for an address${
+            options.prefix ? ` starting with "${options.prefix}"` : ""
+          }${options.prefix && options.suffix ? " and" : ""}${
+            options.suffix ? ` ending with "${options.suffix}"` : ""
+          }${options.ignoreCase ? " (any case)" : ""}`
+        );
+        logger.info(
+          `🎲 About 1 in ${Math.round(
+            expectedAttempts
+          ).toLocaleString()} addresses match. Press Ctrl+C to give up.`
+        );
+
+        const result = await findVanityKeypair({
+          prefix: options.prefix,
+          suffix: options.suffix,
+          ignoreCase: options.ignoreCase,
+          threads,
+          onProgress: printVanityProgress,
+        });
+        if (process.stderr.isTTY) {
+          process.stderr.write("\n");
+        }
+        logger.info(
+          `✅ Found after ${result.attempts.toLocaleString()} keys in ${formatDuration(
+            result.elapsedMs / 1000
+          )}`
+        );
+        newWallet = WalletManager.fromKeypair(result.keypair);
+      } else if (options.mnemonic) {
+        ({ wallet: newWallet, mnemonic } = WalletManager.createNewWithMnemonic(
+          Number(options.words) as 12 | 24
+        ));
+      } else {
+        newWallet = WalletManager.createNew();
+      }
+
+      logger.info("🎉 New wallet generated!");
+      logger.info(`🔑 Public Key: ${newWallet.getPublicKey()}`);
+
+      if (mnemonic) {
+        // The seed phrase is the only backup, so it is shown even when saving
+        logger.info(`🌱 Seed Phrase: ${mnemonic}`);
+        logger.info(`🧭 Derivation Path: ${DEFAULT_DERIVATION_PATH}`);
+        logger.info("");
+        logger.info(
+          "⚠️  IMPORTANT: Write down your seed phrase and keep it offline!"
+        );
+      }
+
+      let keypairFile: string | undefined;
+      if (options.outfile) {
+        keypairFile = newWallet.exportToKeypairFile(
+          options.outfile,
+          options.force
+        );
+        logger.info(`✅ Keypair written to ${keypairFile} (mode 600)`);
+      }
+      if (options.save) {
+        await saveWallet(newWallet, options.save);
+      } else if (!mnemonic && !keypairFile) {
+        logger.info(`🔐 Private Key: ${newWallet.getPrivateKey()}`);
+        logger.info("");
+        logger.info("⚠️  IMPORTANT: Save your private key securely!");
+      }
+      logger.info(
+        `⚠️  This wallet has 0 SOL balance. Fund it on ${state.network.cluster} to use for transactions.`
+      );
+      logger.info("");
+      logger.info(`🚰 ${getFundingHint(state.network.cluster)}`);
+
+      emitResult({
+        publicKey: newWallet.getPublicKey(),
+        mnemonic,
+        derivationPath: mnemonic ? DEFAULT_DERIVATION_PATH : undefined,
+        // Saved wallets and seed phrases never expose the raw key
+        privateKey:
+          options.save || mnemonic || keypairFile
+            ? undefined
+            : newWallet.getPrivateKey(),
+        savedAs: options.save,
+        keypairFile,
+      });
+    } catch (error) {
+      reportError(error, "Error generating wallet");
+    }
+  });
+
+withWalletOptions(program.command("export <path>"))
+  .description("Write the wallet to a keypair file in solana-keygen format")
+  .option("-f, --force", "Overwrite the file if it already exists")
+  .action(async (filePath: string, options) => {
+    try {
+      const wallet = await loadWallet(options);
+      const writtenPath = wallet.exportToKeypairFile(filePath, options.force);
+      logger.info(`✅ Keypair written to ${writtenPath} (mode 600)`);
+      logger.info(`💡 Use it with: solana config set --keypair ${writtenPath}`);
+      emitResult({
+        publicKey: wallet.getPublicKey(),
+        keypairFile: writtenPath,
+      });
+    } catch (error) {
+      reportError(error, "Error exporting wallet");
+    }
+  });
+
+program
+  .command("derive")
+  .description("List addresses derived from a seed phrase with their balances")
+  .option("-n, --count <count>", "Number of accounts to derive", "10")
+  .option("--start <index>", "First account index", "0")
+  .action(async (options) => {
+    if (!/^\d+$/.test(options.count) || !/^\d+$/.test(options.start)) {
+      invalidInput("--count and --start must be whole numbers");
+      return;
+    }
+    const count = parseInt(options.count, 10);
+    const start = parseInt(options.start, 10);
+    if (count < 1 || count > MAX_DERIVE_COUNT) {
+      invalidInput(
+        `--count must be between 1 and ${MAX_DERIVE_COUNT}; use --start to list further accounts`
+      );
+      return;
+    }
+
+    try {
+      const { mnemonic, passphrase } = await promptMnemonic();
+      const derived = deriveKeypairs(mnemonic, passphrase, count, start);
+      const balances = await getBalances(
+        derived.map(({ keypair }) => keypair.publicKey)
+      );
+
+      logger.info("");
+      derived.forEach(({ path, keypair }, index) => {
+        logger.info(
+          `${path.padEnd(20)} ${keypair.publicKey
+            .toBase58()
+            .padEnd(44)} ${formatBalance(balances[index])} SOL`
+        );
+      });
+      logger.info(
+        "\n💡 Import an account with: wallet add <name> --mnemonic --derivation-path <path>"
+      );
+      emitResult({
+        accounts: derived.map(({ path, keypair }, index) => ({
+          derivationPath: path,
+          publicKey: keypair.publicKey.toBase58(),
+          lamports: balances[index],
+        })),
+      });
+    } catch (error) {
+      reportError(error, "Error deriving addresses");
+    }
+  });
+
+const walletCommand = program
+  .command("wallet")
+  .description("Manage wallet profiles in the encrypted keystore");
+
+walletCommand
+  .command("add <name>")
+  .description("Encrypt a private key and save it as a named wallet")
+  .option(
+    "-m, --mnemonic",
+    "Import from a seed phrase instead of a private key"
+  )
+  .option("--keypair <path>", "Import from a solana-keygen keypair file")
+  .option(
+    "--derivation-path <path>",
+    "Derivation path used with --mnemonic",
+    DEFAULT_DERIVATION_PATH
+  )
+  .action(async (name: string, options) => {
+    try {
+      if (state.keystore.has(name)) {
+        invalidInput(`Wallet "${name}" already exists`);
+        return;
+      }
+
+      let wallet: WalletManager;
+      if (options.keypair) {
+        wallet = WalletManager.fromKeypairFile(options.keypair);
+        logger.info(`🔑 Public Key: ${wallet.getPublicKey()}`);
+      } else if (options.mnemonic) {
+        const { mnemonic, passphrase } = await promptMnemonic();
+        wallet = WalletManager.fromMnemonic(
+          mnemonic,
+          passphrase,
+          options.derivationPath
+        );
+        logger.info(`🔑 Public Key: ${wallet.getPublicKey()}`);
+      } else {
+        const answer = await inquirer.prompt({
+          type: "password",
+          name: "privateKey",
+          message: "Enter the private key to store (base58 encoded):",
+          mask: "*",
+        });
+        wallet = new WalletManager(answer.privateKey);
+      }
+      await saveWallet(wallet, name);
+      emitResult({ name, publicKey: wallet.getPublicKey() });
+    } catch (error) {
+      reportError(error, "Error adding wallet");
+    }
+  });
+
+walletCommand
+  .command("list")
+  .description("List wallet profiles stored in the keystore")
+  .action(() => {
+    try {
+      const profiles = state.keystore.list();
+      const selected = state.keystore.getSelected();
+      if (profiles.length === 0) {
+        logger.info(
+          "🗄️  No wallets saved yet. Add one with: wallet add <name>"
+        );
+      } else {
+        logger.info(`🗄️  Keystore: ${state.keystore.getPath()}\n`);
+        profiles.forEach((profile) => {
+          const marker = profile.name === selected ? "*" : " ";
+          logger.info(
+            `${marker} ${profile.name.padEnd(20)} ${profile.publicKey}`
+          );
+        });
+      }
+      emitResult({
+        keystore: state.keystore.getPath(),
+        selected,
+        wallets: profiles,
+      });
+    } catch (error) {
+      reportError(error, "Error listing wallets");
+    }
+  });
+
+walletCommand
+  .command("rename <name> <newName>")
+  .description("Rename a wallet profile")
+  .action((name: string, newName: string) => {
+    try {
+      state.keystore.rename(name, newName);
+      logger.info(`✅ Wallet "${name}" renamed to "${newName}"`);
+      emitResult({ previousName: name, name: newName });
+    } catch (error) {
+      reportError(error, "Error renaming wallet");
+    }
+  });
+
+walletCommand
+  .command("remove <name>")
+  .description("Remove a wallet profile from the keystore")
+  .option("-y, --yes", "Remove without asking for confirmation")
+  .action(async (name: string, options) => {
+    try {
+      if (!state.keystore.has(name)) {
+        invalidInput(`Wallet "${name}" not found in the keystore`);
+        return;
+      }
+
+      if (
+        !(await confirmUnlessYes(
+          `Remove wallet "${name}"? Make sure you have a backup of its private key.`,
+          options.yes
+        ))
+      ) {
+        logger.info("❌ Removal cancelled");
+        return;
+      }
+
+      state.keystore.remove(name);
+      logger.info(`✅ Wallet "${name}" removed`);
+      emitResult({ removed: name });
+    } catch (error) {
+      reportError(error, "Error removing wallet");
+    }
+  });
+
+walletCommand
+  .command("select <name>")
+  .description("Use a wallet profile by default when --wallet is not given")
+  .action((name: string) => {
+    try {
+      state.keystore.select(name);
+      logger.info(`✅ Wallet "${name}" selected`);
+      emitResult({ selected: name });
+    } catch (error) {
+      reportError(error, "Error selecting wallet");
+    }
+  });
+
+function printContacts(contacts: Contact[]) {
+  logger.info(`📒 Address book: ${state.addressBook.getPath()}\n`);
+  contacts.forEach((contact) => {
+    logger.info(
+      `  ${contact.label.padEnd(20)} ${contact.address.padEnd(44)} ${(
+        contact.cluster ?? "any"
+      ).padEnd(12)} ${contact.note ?? ""}`
+    );
+  });
+}
+
+const contactsCommand = program
+  .command("contacts")
+  .description("Manage the address book of recipients");
+
+contactsCommand
+  .command("add <label> <address>")
+  .description("Save an address under a label")
+  .option("--note <note>", "Note shown next to the contact")
+  .option(
+    "--cluster-only",
+    "Only offer the contact on the selected cluster (-c), not on every cluster"
+  )
+  .action((label: string, address: string, options) => {
+    try {
+      const contact = state.addressBook.add({
+        label,
+        address,
+        note: options.note,
+        cluster: options.clusterOnly ? state.network.cluster : undefined,
+      });
+      logger.info(`✅ Contact "${contact.label}" saved`);
+      emitResult({ contact });
+    } catch (error) {
+      reportError(error, "Error adding contact");
+    }
+  });
+
+contactsCommand
+  .command("list")
+  .description("List contacts usable on the current cluster")
+  .option("--all", "List the contacts of every cluster")
+  .action((options) => {
+    try {
+      const contacts = state.addressBook.list(
+        options.all ? undefined : state.network.cluster
+      );
+      if (contacts.length === 0) {
+        logger.info(
+          "📒 No contacts saved yet. Add one with: contacts add <label> <address>"
+        );
+      } else {
+        printContacts(contacts);
+      }
+      emitResult({ contacts });
+    } catch (error) {
+      reportError(error, "Error listing contacts");
+    }
+  });
+
+contactsCommand
+  .command("edit <label>")
+  .description("Change the label, address, note or cluster of a contact")
+  .option("--label <label>", "New label")
+  .option("--address <address>", "New address")
+  .option("--note <note>", "New note (empty to remove it)")
+  .option("--cluster-only", "Only offer it on the selected cluster (-c)")
+  .option("--any-cluster", "Offer it on every cluster")
+  .action((label: string, options) => {
+    try {
+      const contact = state.addressBook.update(label, {
+        ...(options.label !== undefined && { label: options.label }),
+        ...(options.address !== undefined && { address: options.address }),
+        ...(options.note !== undefined && { note: options.note || undefined }),
+        ...(options.clusterOnly && { cluster: state.network.cluster }),
+        ...(options.anyCluster && { cluster: undefined }),
+      });
+      logger.info(`✅ Contact "${contact.label}" updated`);
+      emitResult({ contact });
+    } catch (error) {
+      reportError(error, "Error editing contact");
+    }
+  });
+
+contactsCommand
+  .command("remove <label>")
+  .description("Remove a contact from the address book")
+  .action((label: string) => {
+    try {
+      state.addressBook.remove(label);
+      logger.info(`✅ Contact "${label}" removed`);
+      emitResult({ removed: label });
+    } catch (error) {
+      reportError(error, "Error removing contact");
+    }
+  });
+
+// If no command is provided, the root action starts interactive mode
+program.parseAsync(process.argv);
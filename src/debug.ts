@@ -5,14 +5,33 @@
  * Usage: npm run dev debug-wallet
  */
 
-import { Connection, clusterApiUrl, PublicKey, Keypair } from "@solana/web3.js";
+import { Connection, PublicKey, Keypair } from "@solana/web3.js";
 import { WalletManager } from "./wallet/wallet";
+import { NetworkInfo } from "./types";
+import { getNetworkInfo } from "./utils/helpers";
+import { consoleLogger } from "./utils/logger";
 import bs58 from "bs58";
 
-async function debugWallet() {
+export interface DebugReport {
+  cluster: string;
+  url: string;
+  walletCheckPassed: boolean;
+  slot?: number;
+  blockHeight?: number;
+  networkError?: string;
+}
+
+async function debugWallet(
+  network: NetworkInfo = getNetworkInfo("devnet")
+): Promise<DebugReport> {
   console.log("🔍 Solana Wallet Debug Tool\n");
+  const report: DebugReport = {
+    cluster: network.cluster,
+    url: network.url,
+    walletCheckPassed: false,
+  };
 
-  const connection = new Connection(clusterApiUrl("devnet"), "confirmed");
+  const connection = new Connection(network.url, network.commitment);
 
   // Test with a randomly generated wallet (this should work)
   console.log("1️⃣ Testing with a new random wallet:");
@@ -22,7 +41,8 @@ async function debugWallet() {
   try {
     const randomWallet = new WalletManager(randomPrivateKey);
     console.log(`✅ Random wallet created: ${randomWallet.getPublicKey()}`);
-    await randomWallet.validateForTransactions(connection);
+    await randomWallet.validateForTransactions(connection, consoleLogger);
+    report.walletCheckPassed = true;
   } catch (error) {
     console.error(
       `❌ Random wallet failed:`,
@@ -64,15 +84,21 @@ async function debugWallet() {
   try {
     const slot = await connection.getSlot();
     const blockHeight = await connection.getBlockHeight();
+    report.slot = slot;
+    report.blockHeight = blockHeight;
     console.log(
-      `✅ Connected to devnet - Slot: ${slot}, Block Height: ${blockHeight}`
+      `✅ Connected to ${network.cluster} (${network.url}) - Slot: ${slot}, Block Height: ${blockHeight}`
     );
   } catch (error) {
     console.error(`❌ Network connection failed:`, error);
+    report.networkError =
+      error instanceof Error ? error.message : "Unknown error";
   }
 
   console.log("\n🎯 To test with your wallet:");
   console.log("   npm run dev start");
+
+  return report;
 }
 
 if (require.main === module) {
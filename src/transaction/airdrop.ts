@@ -0,0 +1,128 @@
+import { Commitment, Connection, PublicKey } from "@solana/web3.js";
+import { AirdropResult, ClusterType, ManagerOptions } from "../types";
+import {
+  InvalidInputError,
+  RateLimitedError,
+  classifyError,
+  decodeTransactionError,
+} from "../utils/errors";
+import { formatBalance, sleep } from "../utils/helpers";
+import { Logger, silentLogger } from "../utils/logger";
+
+// Largest amount the faucet of each cluster hands out in one request
+export const AIRDROP_LIMITS: Record<
+  Exclude<ClusterType, "mainnet-beta">,
+  bigint
+> = {
+  devnet: 5_000_000_000n,
+  testnet: 1_000_000_000n,
+  localnet: 100_000_000_000n,
+};
+const MAX_AIRDROP_ATTEMPTS = 4;
+const INITIAL_BACKOFF_MS = 2_000;
+
+export class AirdropManager {
+  private connection: Connection;
+  private cluster: ClusterType;
+  private logger: Logger;
+
+  constructor(
+    connection: Connection,
+    cluster: ClusterType,
+    options: ManagerOptions = {}
+  ) {
+    this.connection = connection;
+    this.cluster = cluster;
+    this.logger = options.logger ?? silentLogger;
+  }
+
+  /**
+   * Largest amount one airdrop may request on this cluster
+   */
+  getLimit(): bigint {
+    if (this.cluster === "mainnet-beta") {
+      throw new InvalidInputError(
+        "Airdrops are only available on devnet, testnet and localnet"
+      );
+    }
+    return AIRDROP_LIMITS[this.cluster];
+  }
+
+  /**
+   * Request test SOL from the cluster's faucet and wait until it arrives.
+   * Rate-limited requests are retried with exponential backoff.
+   */
+  async requestAirdrop(
+    to: PublicKey,
+    lamports: bigint
+  ): Promise<AirdropResult> {
+    const limit = this.getLimit();
+    if (lamports <= 0n) {
+      throw new InvalidInputError("Amount must be greater than 0");
+    }
+    if (lamports > limit) {
+      throw new InvalidInputError(
+        `At most ${formatBalance(limit)} SOL can be airdropped per request on ${
+          this.cluster
+        }`
+      );
+    }
+
+    this.logger.info(
+      `🚰 Requesting ${formatBalance(lamports)} SOL for ${to.toBase58()}`
+    );
+    const signature = await this.requestWithBackoff(to, lamports);
+
+    this.logger.info(`⏳ Waiting for confirmation...`);
+    const latestBlockhash = await this.connection.getLatestBlockhash();
+    const { value } = await this.connection.confirmTransaction(
+      { signature, ...latestBlockhash },
+      this.getCommitment()
+    );
+    if (value.err) {
+      throw decodeTransactionError(value.err);
+    }
+
+    const balance = BigInt(
+      await this.connection.getBalance(to, this.getCommitment())
+    );
+    return { signature, lamports, balance };
+  }
+
+  private async requestWithBackoff(
+    to: PublicKey,
+    lamports: bigint
+  ): Promise<string> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.connection.requestAirdrop(to, Number(lamports));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        // The daily faucet allowance does not reset by waiting a few seconds
+        if (/airdrop limit|run dry/i.test(message)) {
+          throw new RateLimitedError(
+            `The ${this.cluster} faucet refused the airdrop: its limit for this address or IP is reached. Try again later or use https://faucet.solana.com`
+          );
+        }
+        if (
+          !(classifyError(error) instanceof RateLimitedError) ||
+          attempt === MAX_AIRDROP_ATTEMPTS
+        ) {
+          throw error;
+        }
+
+        const delay = INITIAL_BACKOFF_MS * 2 ** (attempt - 1);
+        this.logger.warn(
+          `⏳ Faucet rate limit reached, retrying in ${
+            delay / 1000
+          }s (attempt ${attempt + 1}/${MAX_AIRDROP_ATTEMPTS})`
+        );
+        await sleep(delay);
+      }
+    }
+  }
+
+  private getCommitment(): Commitment {
+    return this.connection.commitment ?? "confirmed";
+  }
+}
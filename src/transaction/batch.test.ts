@@ -0,0 +1,513 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  Connection,
+  Keypair,
+  SendTransactionError,
+  SignatureResult,
+  SignatureStatus,
+} from "@solana/web3.js";
+import { PayoutJournal, PayoutRow } from "../types";
+import { InsufficientFundsError, InvalidInputError } from "../utils/errors";
+import {
+  BatchPayoutManager,
+  assertJournalMatches,
+  getRunLookupTables,
+  isRetryableBatch,
+  loadJournal,
+  parsePayoutCsv,
+  payoutResultsToCsv,
+  saveJournal,
+  summarizeJournal,
+} from "./batch";
+
+const BLOCKHASH = Keypair.generate().publicKey.toBase58();
+const LAST_VALID_BLOCK_HEIGHT = 1_000;
+
+interface MockChain {
+  blockHeight: () => number;
+  signatureStatus: () => SignatureStatus | null;
+  confirm?: SignatureResult;
+  send?: () => void;
+  sent: number;
+  calls: string[];
+}
+
+/**
+ * Just enough of a Connection for BatchPayoutManager.run. confirmTransaction
+ * throws like an expired or timed out confirmation unless `confirm` is given.
+ */
+function mockConnection(chain: MockChain): Connection {
+  return {
+    commitment: "confirmed",
+    getLatestBlockhash: async () => ({
+      blockhash: BLOCKHASH,
+      lastValidBlockHeight: LAST_VALID_BLOCK_HEIGHT,
+    }),
+    sendRawTransaction: async () => {
+      chain.calls.push("sendRawTransaction");
+      chain.sent++;
+      chain.send?.();
+      return "";
+    },
+    confirmTransaction: async () => {
+      chain.calls.push("confirmTransaction");
+      if (!chain.confirm) {
+        throw new Error("Signature has expired: block height exceeded");
+      }
+      return { context: { slot: 1 }, value: chain.confirm };
+    },
+    getBlockHeight: async () => {
+      chain.calls.push("getBlockHeight");
+      return chain.blockHeight();
+    },
+    getSignatureStatuses: async () => {
+      chain.calls.push("getSignatureStatuses");
+      return { context: { slot: 1 }, value: [chain.signatureStatus()] };
+    },
+  } as unknown as Connection;
+}
+
+function landed(): SignatureStatus {
+  return {
+    slot: 1,
+    confirmations: null,
+    err: null,
+    confirmationStatus: "confirmed",
+  };
+}
+
+function makeRows(count: number): PayoutRow[] {
+  const csv = Array.from(
+    { length: count },
+    () => `${Keypair.generate().publicKey.toBase58()},0.5`
+  ).join("\n");
+  return parsePayoutCsv(csv).rows;
+}
+
+function makeJournal(
+  batches: PayoutJournal["batches"],
+  sender: Keypair
+): PayoutJournal {
+  return {
+    version: 1,
+    csvHash: "hash",
+    sender: sender.publicKey.toBase58(),
+    cluster: "devnet",
+    createdAt: new Date(0).toISOString(),
+    batches,
+  };
+}
+
+describe("parsePayoutCsv", () => {
+  const address = Keypair.generate().publicKey.toBase58();
+
+  test("parses rows with a header, comments and labels", () => {
+    const { rows, errors } = parsePayoutCsv(
+      `address,amount,label\r\n# team\n${address}, 1.5 ,Alice, Bob\n\n${address},0.000000001\n`
+    );
+
+    assert.deepEqual(errors, []);
+    assert.deepEqual(rows, [
+      {
+        line: 3,
+        address,
+        amount: "1.5",
+        lamports: 1_500_000_000n,
+        label: "Alice,Bob",
+      },
+      {
+        line: 5,
+        address,
+        amount: "0.000000001",
+        lamports: 1n,
+        label: undefined,
+      },
+    ]);
+  });
+
+  test("reports every invalid row", () => {
+    const { rows, errors } = parsePayoutCsv(
+      `not-an-address,1\n${address},abc\n${address},0\n${address},0.0000000001\n${address},2`
+    );
+
+    assert.equal(rows.length, 1);
+    assert.equal(errors.length, 4);
+    assert.match(errors[0], /^Line 1: invalid address/);
+    assert.match(errors[1], /^Line 2: /);
+    assert.equal(errors[2], "Line 3: amount must be greater than 0");
+    assert.match(errors[3], /^Line 4: /);
+  });
+
+  test("rejects a file without payouts", () => {
+    assert.deepEqual(parsePayoutCsv("address,amount\n\n").errors, [
+      "The CSV file does not contain any payouts",
+    ]);
+  });
+});
+
+describe("isRetryableBatch", () => {
+  test("only failed batches without a signature are retried", () => {
+    assert.equal(
+      isRetryableBatch({ index: 0, rows: [], status: "failed" }),
+      true
+    );
+    assert.equal(
+      isRetryableBatch({
+        index: 0,
+        rows: [],
+        status: "failed",
+        signature: "sig",
+      }),
+      false
+    );
+    assert.equal(
+      isRetryableBatch({ index: 0, rows: [], status: "sent" }),
+      false
+    );
+    assert.equal(
+      isRetryableBatch({ index: 0, rows: [], status: "pending" }),
+      false
+    );
+  });
+});
+
+describe("BatchPayoutManager.run", () => {
+  const sender = Keypair.generate();
+  let dir: string;
+  let journalPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "batch-test-"));
+    journalPath = path.join(dir, "journal.json");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function sentBatch(): PayoutJournal["batches"][number] {
+    return {
+      index: 0,
+      rows: [0, 1],
+      status: "sent",
+      signature: "5".repeat(88),
+      blockhash: BLOCKHASH,
+      lastValidBlockHeight: LAST_VALID_BLOCK_HEIGHT,
+    };
+  }
+
+  test("does not resend a batch that lands while its status is checked", async () => {
+    // The transaction lands right after the first read of the chain, so
+    // whichever of block height and signature status is read second sees
+    // the block height past lastValidBlockHeight and the transaction landed
+    let reads = 0;
+    const chain: MockChain = {
+      blockHeight: () =>
+        reads++ === 0 ? LAST_VALID_BLOCK_HEIGHT : LAST_VALID_BLOCK_HEIGHT + 1,
+      signatureStatus: () => (reads++ === 0 ? null : landed()),
+      sent: 0,
+      calls: [],
+    };
+    const journal = makeJournal([sentBatch()], sender);
+
+    await new BatchPayoutManager(mockConnection(chain)).run(
+      sender,
+      makeRows(2),
+      journal,
+      journalPath
+    );
+
+    assert.equal(chain.sent, 0);
+    assert.equal(journal.batches[0].status, "confirmed");
+    assert.deepEqual(chain.calls, [
+      "confirmTransaction",
+      "getBlockHeight",
+      "getSignatureStatuses",
+    ]);
+  });
+
+  test("keeps a sent batch whose blockhash is still valid", async () => {
+    const chain: MockChain = {
+      blockHeight: () => LAST_VALID_BLOCK_HEIGHT,
+      signatureStatus: () => null,
+      sent: 0,
+      calls: [],
+    };
+    const journal = makeJournal([sentBatch()], sender);
+
+    await new BatchPayoutManager(mockConnection(chain)).run(
+      sender,
+      makeRows(2),
+      journal,
+      journalPath
+    );
+
+    assert.equal(chain.sent, 0);
+    assert.equal(journal.batches[0].status, "sent");
+    assert.equal(journal.batches[0].signature, sentBatch().signature);
+  });
+
+  test("rebuilds a sent batch that expired without landing", async () => {
+    const chain: MockChain = {
+      blockHeight: () => LAST_VALID_BLOCK_HEIGHT + 1,
+      signatureStatus: () => null,
+      send: () => {
+        chain.confirm = { err: null };
+      },
+      sent: 0,
+      calls: [],
+    };
+    const journal = makeJournal([sentBatch()], sender);
+
+    await new BatchPayoutManager(mockConnection(chain)).run(
+      sender,
+      makeRows(2),
+      journal,
+      journalPath
+    );
+
+    assert.equal(chain.sent, 1);
+    assert.equal(journal.batches[0].status, "confirmed");
+    assert.notEqual(journal.batches[0].signature, sentBatch().signature);
+  });
+
+  test("retries batches that never landed and skips ones that failed on chain", async () => {
+    const chain: MockChain = {
+      blockHeight: () => LAST_VALID_BLOCK_HEIGHT,
+      signatureStatus: () => null,
+      confirm: { err: null },
+      sent: 0,
+      calls: [],
+    };
+    const journal = makeJournal(
+      [
+        { index: 0, rows: [0], status: "failed", error: "Preflight failed" },
+        {
+          index: 1,
+          rows: [1],
+          status: "failed",
+          signature: "5".repeat(88),
+          error: "Insufficient funds",
+        },
+        { index: 2, rows: [2], status: "confirmed", signature: "4".repeat(88) },
+      ],
+      sender
+    );
+    const progress: string[] = [];
+
+    await new BatchPayoutManager(mockConnection(chain)).run(
+      sender,
+      makeRows(3),
+      journal,
+      journalPath,
+      (batch) => progress.push(`${batch.index}:${batch.status}`)
+    );
+
+    assert.equal(chain.sent, 1);
+    assert.deepEqual(progress, ["0:confirmed", "1:failed", "2:confirmed"]);
+    assert.equal(journal.batches[0].error, undefined);
+    assert.equal(journal.batches[1].signature, "5".repeat(88));
+    // Saved as JSON, which drops the cleared error fields
+    assert.deepEqual(
+      loadJournal(journalPath),
+      JSON.parse(JSON.stringify(journal))
+    );
+  });
+
+  test("journals the signature before broadcasting", async () => {
+    let journaled: PayoutJournal | null = null;
+    const chain: MockChain = {
+      blockHeight: () => LAST_VALID_BLOCK_HEIGHT,
+      signatureStatus: () => null,
+      confirm: { err: null },
+      send: () => {
+        journaled = loadJournal(journalPath);
+      },
+      sent: 0,
+      calls: [],
+    };
+    const journal = makeJournal(
+      [{ index: 0, rows: [0], status: "pending" }],
+      sender
+    );
+
+    await new BatchPayoutManager(mockConnection(chain)).run(
+      sender,
+      makeRows(1),
+      journal,
+      journalPath
+    );
+
+    const batch = journaled!.batches[0];
+    assert.equal(batch.status, "sent");
+    assert.equal(batch.signature, journal.batches[0].signature);
+    assert.equal(batch.lastValidBlockHeight, LAST_VALID_BLOCK_HEIGHT);
+  });
+
+  test("marks a preflight rejection as retryable", async () => {
+    const chain: MockChain = {
+      blockHeight: () => LAST_VALID_BLOCK_HEIGHT,
+      signatureStatus: () => null,
+      send: () => {
+        throw new SendTransactionError({
+          action: "send",
+          signature: "",
+          transactionMessage: "Attempt to debit an account but found no record",
+        });
+      },
+      sent: 0,
+      calls: [],
+    };
+    const journal = makeJournal(
+      [{ index: 0, rows: [0], status: "pending" }],
+      sender
+    );
+
+    await new BatchPayoutManager(mockConnection(chain)).run(
+      sender,
+      makeRows(1),
+      journal,
+      journalPath
+    );
+
+    assert.equal(journal.batches[0].status, "failed");
+    assert.equal(isRetryableBatch(journal.batches[0]), true);
+    assert.equal(journal.batches[0].blockhash, undefined);
+  });
+
+  test("fails a batch whose blockhash keeps expiring without a signature", async () => {
+    const chain: MockChain = {
+      blockHeight: () => LAST_VALID_BLOCK_HEIGHT + 1,
+      signatureStatus: () => null,
+      sent: 0,
+      calls: [],
+    };
+    const journal = makeJournal(
+      [{ index: 0, rows: [0], status: "pending" }],
+      sender
+    );
+
+    await new BatchPayoutManager(mockConnection(chain)).run(
+      sender,
+      makeRows(1),
+      journal,
+      journalPath
+    );
+
+    assert.equal(chain.sent, 3);
+    assert.equal(journal.batches[0].status, "failed");
+    assert.equal(isRetryableBatch(journal.batches[0]), true);
+  });
+});
+
+describe("resuming a payout run", () => {
+  const sender = Keypair.generate();
+
+  test("summarizes the batches by outcome", () => {
+    const journal = makeJournal(
+      [
+        { index: 0, rows: [0], status: "confirmed", signature: "a" },
+        { index: 1, rows: [1], status: "failed", signature: "b" },
+        { index: 2, rows: [2], status: "failed" },
+        { index: 3, rows: [3], status: "sent", signature: "c" },
+        { index: 4, rows: [4], status: "pending" },
+      ],
+      sender
+    );
+
+    assert.deepEqual(summarizeJournal(journal), {
+      confirmed: 1,
+      failed: 2,
+      unresolved: 2,
+      retryable: 1,
+      failedOnChain: 1,
+    });
+  });
+
+  test("keeps the lookup tables the run was started with", () => {
+    const table = Keypair.generate().publicKey.toBase58();
+    const journal = { ...makeJournal([], sender), lookupTables: [table] };
+
+    assert.deepEqual(getRunLookupTables(null), []);
+    assert.deepEqual(getRunLookupTables(null, table), [table]);
+    assert.deepEqual(getRunLookupTables(journal), [table]);
+    assert.deepEqual(getRunLookupTables(journal, table), [table]);
+    assert.throws(
+      () => getRunLookupTables(makeJournal([], sender), table),
+      InvalidInputError
+    );
+  });
+
+  test("refuses a journal of another CSV file, wallet or cluster", () => {
+    const journal = makeJournal([], sender);
+
+    assertJournalMatches("j.json", journal, "hash", sender.publicKey, "devnet");
+    for (const [csvHash, wallet, cluster] of [
+      ["other", sender.publicKey, "devnet"],
+      ["hash", Keypair.generate().publicKey, "devnet"],
+      ["hash", sender.publicKey, "testnet"],
+    ] as const) {
+      assert.throws(
+        () => assertJournalMatches("j.json", journal, csvHash, wallet, cluster),
+        /j\.json belongs to a different CSV file/
+      );
+    }
+  });
+
+  test("requires the payouts plus the fees", async () => {
+    const connection = {
+      getBalance: async () => 1_000_000,
+    } as unknown as Connection;
+    const manager = new BatchPayoutManager(connection);
+    const plan = { batches: [], totalLamports: 990_000n, totalFeeLamports: 0n };
+
+    assert.equal(
+      await manager.checkBalance(sender.publicKey, plan),
+      1_000_000n
+    );
+    await assert.rejects(
+      manager.checkBalance(sender.publicKey, {
+        ...plan,
+        totalFeeLamports: 10_001n,
+      }),
+      (error) =>
+        error instanceof InsufficientFundsError && error.required === 1_000_001n
+    );
+  });
+});
+
+describe("journal files", () => {
+  test("round-trip and render results", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "batch-test-"));
+    try {
+      const journalPath = path.join(dir, "journal.json");
+      const rows = makeRows(2);
+      const journal = makeJournal(
+        [
+          { index: 0, rows: [0], status: "confirmed", signature: "sig" },
+          { index: 1, rows: [1], status: "pending" },
+        ],
+        Keypair.generate()
+      );
+
+      assert.equal(loadJournal(journalPath), null);
+      saveJournal(journalPath, journal);
+      assert.deepEqual(loadJournal(journalPath), journal);
+      assert.equal(fs.existsSync(`${journalPath}.tmp`), false);
+
+      const lines = payoutResultsToCsv(rows, journal).trim().split("\n");
+      assert.equal(lines[0], "line,address,amount,label,status,signature");
+      assert.equal(lines[1], `1,${rows[0].address},0.5,,confirmed,sig`);
+      assert.equal(lines[2], `2,${rows[1].address},0.5,,pending,`);
+
+      fs.writeFileSync(journalPath, JSON.stringify({ version: 2 }));
+      assert.throws(() => loadJournal(journalPath), /Unsupported journal/);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,547 @@
+import crypto from "crypto";
+import fs from "fs";
+import {
+  AddressLookupTableAccount,
+  Commitment,
+  Connection,
+  Keypair,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  SendTransactionError,
+  SystemProgram,
+  Transaction,
+  TransactionMessage,
+  VersionedMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import bs58 from "bs58";
+import {
+  ClusterType,
+  PayoutBatch,
+  PayoutJournal,
+  PayoutRow,
+  PayoutSummary,
+} from "../types";
+import {
+  InsufficientFundsError,
+  InvalidInputError,
+  decodeTransactionError,
+} from "../utils/errors";
+import {
+  formatBalance,
+  solToLamports,
+  toCsv,
+  validatePublicKey,
+} from "../utils/helpers";
+
+// How often a batch whose blockhash expired is rebuilt and resent
+const MAX_SEND_ATTEMPTS = 3;
+
+export interface PayoutPlan {
+  batches: PayoutRow[][];
+  totalLamports: bigint;
+  totalFeeLamports: bigint;
+}
+
+/**
+ * Parse and validate a payout CSV with "address,amount[,label]" rows.
+ * A header row is allowed. Every invalid row is reported, not just the first.
+ */
+export function parsePayoutCsv(content: string): {
+  rows: PayoutRow[];
+  errors: string[];
+} {
+  const rows: PayoutRow[] = [];
+  const errors: string[] = [];
+
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = index + 1;
+    const trimmed = rawLine.trim();
+    if (!trimmed || trimmed.startsWith("#")) return;
+
+    const [address = "", amount = "", ...labelParts] = trimmed
+      .split(",")
+      .map((field) => field.trim());
+
+    // Skip a header row such as "address,amount,label"
+    if (line === 1 && address.toLowerCase() === "address") return;
+
+    if (!validatePublicKey(address)) {
+      errors.push(`Line ${line}: invalid address "${address}"`);
+      return;
+    }
+
+    let lamports: bigint;
+    try {
+      lamports = solToLamports(amount);
+    } catch (error) {
+      errors.push(
+        `Line ${line}: ${error instanceof Error ? error.message : "invalid amount"}`
+      );
+      return;
+    }
+    if (lamports <= 0n) {
+      errors.push(`Line ${line}: amount must be greater than 0`);
+      return;
+    }
+
+    rows.push({
+      line,
+      address,
+      amount,
+      lamports,
+      label: labelParts.join(",") || undefined,
+    });
+  });
+
+  if (rows.length === 0 && errors.length === 0) {
+    errors.push("The CSV file does not contain any payouts");
+  }
+
+  return { rows, errors };
+}
+
+/**
+ * Hash of the CSV contents, used to tie a journal to its payout file
+ */
+export function hashPayoutCsv(content: string): string {
+  return crypto.createHash("sha256").update(content).digest("hex");
+}
+
+export class BatchPayoutManager {
+  private connection: Connection;
+  private lookupTables: AddressLookupTableAccount[];
+
+  /**
+   * With lookup tables, batches are sent as v0 transactions and recipients
+   * found in the tables take one byte instead of 32, so each transaction
+   * pays many more of them
+   */
+  constructor(
+    connection: Connection,
+    lookupTables: AddressLookupTableAccount[] = []
+  ) {
+    this.connection = connection;
+    this.lookupTables = lookupTables;
+  }
+
+  /**
+   * Pack the payouts into as few transactions as fit the packet size limit
+   * and estimate the total fee
+   */
+  async plan(from: PublicKey, rows: PayoutRow[]): Promise<PayoutPlan> {
+    const batches: PayoutRow[][] = [];
+    let current: PayoutRow[] = [];
+
+    for (const row of rows) {
+      if (
+        current.length > 0 &&
+        getTransactionSize(from, [...current, row], this.lookupTables) >
+          PACKET_DATA_SIZE
+      ) {
+        batches.push(current);
+        current = [];
+      }
+      current.push(row);
+    }
+    if (current.length > 0) batches.push(current);
+
+    const { blockhash } = await this.connection.getLatestBlockhash();
+    let totalFeeLamports = 0n;
+    for (const batch of batches) {
+      const fee = await this.connection.getFeeForMessage(
+        compileBatchMessage(from, batch, blockhash, this.lookupTables),
+        this.getCommitment()
+      );
+      totalFeeLamports += BigInt(fee.value ?? 0);
+    }
+
+    return {
+      batches,
+      totalLamports: rows.reduce((sum, row) => sum + row.lamports, 0n),
+      totalFeeLamports,
+    };
+  }
+
+  /**
+   * Return the sender's balance, or throw if it does not cover the payouts
+   * and fees of a plan
+   */
+  async checkBalance(from: PublicKey, plan: PayoutPlan): Promise<bigint> {
+    const balance = BigInt(await this.connection.getBalance(from));
+    const required = plan.totalLamports + plan.totalFeeLamports;
+    if (balance < required) {
+      throw new InsufficientFundsError(
+        `Insufficient balance. You have ${formatBalance(
+          balance
+        )} SOL, but need ${formatBalance(required)} SOL`,
+        balance,
+        required
+      );
+    }
+    return balance;
+  }
+
+  /**
+   * Create a fresh journal for a payout plan
+   */
+  createJournal(
+    csvHash: string,
+    sender: PublicKey,
+    cluster: ClusterType,
+    rows: PayoutRow[],
+    plan: PayoutPlan
+  ): PayoutJournal {
+    return {
+      version: 1,
+      csvHash,
+      sender: sender.toBase58(),
+      cluster,
+      createdAt: new Date().toISOString(),
+      lookupTables:
+        this.lookupTables.length > 0
+          ? this.lookupTables.map((table) => table.key.toBase58())
+          : undefined,
+      batches: plan.batches.map((batch, index) => ({
+        index,
+        rows: batch.map((row) => rows.indexOf(row)),
+        status: "pending",
+      })),
+    };
+  }
+
+  /**
+   * Send every batch that has not been confirmed yet. The journal is saved
+   * before each broadcast, so an interrupted run can be resumed without
+   * paying anyone twice. Failed batches that never landed are retried;
+   * ones that failed on chain are left for the caller to handle.
+   */
+  async run(
+    fromKeypair: Keypair,
+    rows: PayoutRow[],
+    journal: PayoutJournal,
+    journalPath: string,
+    onProgress?: (batch: PayoutBatch) => void
+  ): Promise<PayoutJournal> {
+    for (const batch of journal.batches) {
+      if (isRetryableBatch(batch)) {
+        batch.status = "pending";
+        batch.error = undefined;
+        saveJournal(journalPath, journal);
+      }
+      if (batch.status === "sent") {
+        await this.reconcile(batch);
+        saveJournal(journalPath, journal);
+      }
+      // A batch still "sent" may yet land, so it must never be rebuilt here
+      if (batch.status !== "pending") {
+        onProgress?.(batch);
+        continue;
+      }
+
+      const batchRows = batch.rows.map((index) => rows[index]);
+      for (let attempt = 1; attempt <= MAX_SEND_ATTEMPTS; attempt++) {
+        await this.sendBatch(
+          fromKeypair,
+          batchRows,
+          batch,
+          journal,
+          journalPath
+        );
+        if (batch.status !== "pending") break;
+      }
+      if (batch.status === "pending") {
+        // Every attempt expired unprocessed, so none of them can still land
+        batch.status = "failed";
+        batch.signature = undefined;
+        batch.blockhash = undefined;
+        batch.lastValidBlockHeight = undefined;
+        batch.error = "Blockhash expired repeatedly before confirmation";
+        saveJournal(journalPath, journal);
+      }
+
+      onProgress?.(batch);
+    }
+
+    return journal;
+  }
+
+  private async sendBatch(
+    fromKeypair: Keypair,
+    batchRows: PayoutRow[],
+    batch: PayoutBatch,
+    journal: PayoutJournal,
+    journalPath: string
+  ): Promise<void> {
+    const { blockhash, lastValidBlockHeight } =
+      await this.connection.getLatestBlockhash();
+    const transaction = new VersionedTransaction(
+      compileBatchMessage(
+        fromKeypair.publicKey,
+        batchRows,
+        blockhash,
+        this.lookupTables
+      )
+    );
+    transaction.sign([fromKeypair]);
+
+    const [signature] = transaction.signatures;
+    batch.status = "sent";
+    batch.signature = bs58.encode(signature);
+    batch.blockhash = blockhash;
+    batch.lastValidBlockHeight = lastValidBlockHeight;
+    batch.error = undefined;
+    // Record the signature before broadcasting so a crash cannot hide a payment
+    saveJournal(journalPath, journal);
+
+    try {
+      await this.connection.sendRawTransaction(transaction.serialize(), {
+        maxRetries: 3,
+      });
+    } catch (error) {
+      if (error instanceof SendTransactionError) {
+        // Rejected by preflight, so it was never forwarded to the cluster
+        batch.status = "failed";
+        batch.signature = undefined;
+        batch.blockhash = undefined;
+        batch.lastValidBlockHeight = undefined;
+        batch.error = error.message;
+        saveJournal(journalPath, journal);
+        return;
+      }
+      // Network errors: the transaction may still have landed, reconcile decides
+      batch.error = error instanceof Error ? error.message : "Unknown error";
+    }
+
+    await this.reconcile(batch);
+    saveJournal(journalPath, journal);
+  }
+
+  /**
+   * Resolve the final status of a batch that was broadcast earlier
+   */
+  private async reconcile(batch: PayoutBatch): Promise<void> {
+    if (!batch.signature || !batch.blockhash || !batch.lastValidBlockHeight) {
+      batch.status = "pending";
+      return;
+    }
+
+    try {
+      const { value } = await this.connection.confirmTransaction(
+        {
+          signature: batch.signature,
+          blockhash: batch.blockhash,
+          lastValidBlockHeight: batch.lastValidBlockHeight,
+        },
+        this.getCommitment()
+      );
+      batch.status = value.err ? "failed" : "confirmed";
+      batch.error = value.err
+        ? decodeTransactionError(value.err).message
+        : undefined;
+      return;
+    } catch {
+      // Expired or timed out: look the signature up before deciding
+    }
+
+    // Read the height before the status: a transaction landing between the
+    // two calls then shows up in the status instead of looking expired
+    const blockHeight = await this.connection.getBlockHeight();
+    const { value } = await this.connection.getSignatureStatuses(
+      [batch.signature],
+      { searchTransactionHistory: true }
+    );
+    const status = value[0];
+    if (status && !status.err) {
+      batch.status = "confirmed";
+      batch.error = undefined;
+    } else if (status?.err) {
+      batch.status = "failed";
+      batch.error = decodeTransactionError(status.err).message;
+    } else {
+      // Only an expired blockhash guarantees the transaction can never land
+      batch.status =
+        blockHeight > batch.lastValidBlockHeight ? "pending" : "sent";
+    }
+  }
+
+  private getCommitment(): Commitment {
+    return this.connection.commitment ?? "confirmed";
+  }
+}
+
+/**
+ * A failed batch without a signature was never processed by the cluster
+ * (rejected by preflight or expired), so sending it again pays nobody twice.
+ * A batch that failed on chain keeps its signature and is not retried.
+ */
+export function isRetryableBatch(batch: PayoutBatch): boolean {
+  return batch.status === "failed" && !batch.signature;
+}
+
+/**
+ * Count the batches of a journal by outcome
+ */
+export function summarizeJournal(journal: PayoutJournal): PayoutSummary {
+  const count = (status: PayoutBatch["status"]) =>
+    journal.batches.filter((batch) => batch.status === status).length;
+  const retryable = journal.batches.filter(isRetryableBatch).length;
+  return {
+    confirmed: count("confirmed"),
+    failed: count("failed"),
+    unresolved: count("sent") + count("pending"),
+    retryable,
+    failedOnChain: count("failed") - retryable,
+  };
+}
+
+/**
+ * Lookup tables of a payout run. A resumed run keeps the tables its batches
+ * were packed with, so a table cannot be added halfway through.
+ */
+export function getRunLookupTables(
+  journal: PayoutJournal | null,
+  requested?: string
+): string[] {
+  const lookupTables = journal
+    ? (journal.lookupTables ?? [])
+    : requested
+      ? [requested]
+      : [];
+  if (requested && !lookupTables.includes(requested)) {
+    throw new InvalidInputError(
+      `The payout run was started without lookup table ${requested}. Resume without it or start a new journal.`
+    );
+  }
+  return lookupTables;
+}
+
+/**
+ * Refuse to resume a journal written for another CSV file, wallet or cluster
+ */
+export function assertJournalMatches(
+  journalPath: string,
+  journal: PayoutJournal,
+  csvHash: string,
+  sender: PublicKey,
+  cluster: ClusterType
+): void {
+  if (
+    journal.csvHash !== csvHash ||
+    journal.sender !== sender.toBase58() ||
+    journal.cluster !== cluster
+  ) {
+    throw new InvalidInputError(
+      `${journalPath} belongs to a different CSV file, wallet or cluster. Move it away or start a new journal.`
+    );
+  }
+}
+
+function buildBatchTransaction(
+  from: PublicKey,
+  rows: PayoutRow[]
+): Transaction {
+  const transaction = new Transaction();
+  transaction.feePayer = from;
+  rows.forEach((row) =>
+    transaction.add(
+      SystemProgram.transfer({
+        fromPubkey: from,
+        toPubkey: new PublicKey(row.address),
+        lamports: row.lamports,
+      })
+    )
+  );
+  return transaction;
+}
+
+/**
+ * Message of a batch transaction: legacy, or v0 when lookup tables are used
+ */
+function compileBatchMessage(
+  from: PublicKey,
+  rows: PayoutRow[],
+  blockhash: string,
+  lookupTables: AddressLookupTableAccount[]
+): VersionedMessage {
+  const transaction = buildBatchTransaction(from, rows);
+  if (lookupTables.length === 0) {
+    transaction.recentBlockhash = blockhash;
+    return transaction.compileMessage();
+  }
+  return new TransactionMessage({
+    payerKey: from,
+    recentBlockhash: blockhash,
+    instructions: transaction.instructions,
+  }).compileToV0Message(lookupTables);
+}
+
+function getTransactionSize(
+  from: PublicKey,
+  rows: PayoutRow[],
+  lookupTables: AddressLookupTableAccount[]
+): number {
+  // Any valid blockhash works for measuring the size
+  const message = compileBatchMessage(
+    from,
+    rows,
+    PublicKey.default.toBase58(),
+    lookupTables
+  );
+  // 1 byte signature count + one 64 byte signature for the sender
+  return 1 + 64 + message.serialize().length;
+}
+
+/**
+ * Load a payout journal, or return null if none exists yet
+ */
+export function loadJournal(journalPath: string): PayoutJournal | null {
+  if (!fs.existsSync(journalPath)) return null;
+
+  const journal = JSON.parse(fs.readFileSync(journalPath, "utf8"));
+  if (journal.version !== 1 || !Array.isArray(journal.batches)) {
+    throw new Error(`Unsupported journal format in ${journalPath}`);
+  }
+  return journal as PayoutJournal;
+}
+
+/**
+ * Save a payout journal atomically
+ */
+export function saveJournal(journalPath: string, journal: PayoutJournal): void {
+  const tempPath = `${journalPath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(journal, null, 2));
+  fs.renameSync(tempPath, journalPath);
+}
+
+/**
+ * Render the per-row results of a payout run as CSV
+ */
+export function payoutResultsToCsv(
+  rows: PayoutRow[],
+  journal: PayoutJournal
+): string {
+  const results = rows.map((row) => ({
+    row,
+    status: "pending",
+    signature: "",
+  }));
+  journal.batches.forEach((batch) =>
+    batch.rows.forEach((index) => {
+      results[index].status = batch.status;
+      results[index].signature = batch.signature ?? "";
+    })
+  );
+
+  return toCsv([
+    ["line", "address", "amount", "label", "status", "signature"],
+    ...results.map(({ row, status, signature }) => [
+      row.line,
+      row.address,
+      row.amount,
+      row.label,
+      status,
+      signature,
+    ]),
+  ]);
+}
@@ -0,0 +1,136 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionError,
+  VersionedTransactionResponse,
+} from "@solana/web3.js";
+import { parseTransaction } from "./history";
+
+const FEE = 5_000;
+
+/**
+ * A fetched transaction whose accounts have the given balance changes,
+ * fee included
+ */
+function response(
+  transaction: Transaction,
+  deltas: Map<string, number>,
+  err: TransactionError | null = null
+): VersionedTransactionResponse {
+  const message = transaction.compileMessage();
+  const preBalances = message.accountKeys.map(() => 1_000_000_000);
+  const postBalances = message.accountKeys.map(
+    (key, index) => preBalances[index] + (deltas.get(key.toBase58()) ?? 0)
+  );
+  return {
+    slot: 42,
+    blockTime: 1_700_000_000,
+    transaction: { message, signatures: [] },
+    meta: { fee: FEE, preBalances, postBalances, err },
+  } as unknown as VersionedTransactionResponse;
+}
+
+function transfer(
+  feePayer: PublicKey,
+  ...transfers: [PublicKey, PublicKey, number][]
+): Transaction {
+  const transaction = new Transaction();
+  transaction.feePayer = feePayer;
+  transaction.recentBlockhash = Keypair.generate().publicKey.toBase58();
+  transfers.forEach(([fromPubkey, toPubkey, lamports]) =>
+    transaction.add(SystemProgram.transfer({ fromPubkey, toPubkey, lamports }))
+  );
+  return transaction;
+}
+
+describe("parseTransaction", () => {
+  const sender = Keypair.generate().publicKey;
+  const recipient = Keypair.generate().publicKey;
+  const other = Keypair.generate().publicKey;
+
+  test("reports an outgoing transfer without the fee", () => {
+    const details = parseTransaction(
+      "sig",
+      response(
+        transfer(sender, [sender, recipient, 1_000]),
+        new Map([
+          [sender.toBase58(), -1_000 - FEE],
+          [recipient.toBase58(), 1_000],
+        ])
+      ),
+      sender
+    );
+
+    assert.equal(details.direction, "outgoing");
+    assert.equal(details.amount, 1_000n);
+    assert.equal(details.fee, BigInt(FEE));
+    assert.equal(details.from, sender.toBase58());
+    assert.equal(details.to, recipient.toBase58());
+    assert.equal(details.counterparty, recipient.toBase58());
+    assert.equal(details.slot, 42);
+  });
+
+  test("compares counterparties without the fee payer's fee", () => {
+    // The fee payer sends less than the other sender, but more once its
+    // fee is counted
+    const details = parseTransaction(
+      "sig",
+      response(
+        transfer(sender, [sender, recipient, 1_000], [other, recipient, 3_000]),
+        new Map([
+          [sender.toBase58(), -1_000 - FEE],
+          [other.toBase58(), -3_000],
+          [recipient.toBase58(), 4_000],
+        ])
+      ),
+      recipient
+    );
+
+    assert.equal(details.direction, "incoming");
+    assert.equal(details.amount, 4_000n);
+    assert.equal(details.fee, 0n);
+    assert.equal(details.counterparty, other.toBase58());
+    assert.equal(details.from, other.toBase58());
+  });
+
+  test("does not count a sponsor's fee as a payment", () => {
+    const sponsor = Keypair.generate().publicKey;
+    const details = parseTransaction(
+      "sig",
+      response(
+        transfer(sponsor, [sender, recipient, 1_000]),
+        new Map([
+          [sponsor.toBase58(), -FEE],
+          [sender.toBase58(), -1_000],
+          [recipient.toBase58(), 1_000],
+        ])
+      ),
+      recipient
+    );
+
+    assert.equal(details.counterparty, sender.toBase58());
+    assert.equal(details.amount, 1_000n);
+  });
+
+  test("reports a failed transaction that only paid the fee", () => {
+    const details = parseTransaction(
+      "sig",
+      response(
+        transfer(sender, [sender, recipient, 1_000]),
+        new Map([[sender.toBase58(), -FEE]]),
+        { InstructionError: [0, { Custom: 1 }] }
+      ),
+      sender
+    );
+
+    assert.equal(details.status, "failed");
+    assert.equal(details.direction, "none");
+    assert.equal(details.amount, 0n);
+    assert.equal(details.counterparty, undefined);
+    assert.equal(details.fee, BigInt(FEE));
+  });
+});
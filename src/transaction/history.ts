@@ -0,0 +1,167 @@
+import {
+  ConfirmedSignatureInfo,
+  Connection,
+  PublicKey,
+  VersionedTransactionResponse,
+} from "@solana/web3.js";
+import {
+  HistoryOptions,
+  HistoryPage,
+  TransactionDetails,
+  TransactionDirection,
+} from "../types";
+import { TransferManager } from "./transfer";
+
+// getSignaturesForAddress returns at most 1000 signatures per call
+const PAGE_SIZE = 100;
+const DEFAULT_LIMIT = 20;
+
+export class HistoryManager {
+  private connection: Connection;
+  private transferManager: TransferManager;
+
+  constructor(connection: Connection) {
+    this.connection = connection;
+    this.transferManager = new TransferManager(connection);
+  }
+
+  /**
+   * Page through the wallet's signatures and parse each matching transaction
+   */
+  async getHistory(
+    address: PublicKey,
+    options: HistoryOptions = {}
+  ): Promise<HistoryPage> {
+    const limit = options.limit ?? DEFAULT_LIMIT;
+    const transactions: TransactionDetails[] = [];
+    let before = options.before;
+
+    while (transactions.length < limit) {
+      const signatures = await this.connection.getSignaturesForAddress(
+        address,
+        { before, until: options.until, limit: PAGE_SIZE },
+        this.connection.commitment === "finalized" ? "finalized" : "confirmed"
+      );
+      if (signatures.length === 0) {
+        return { transactions };
+      }
+
+      for (const info of signatures) {
+        before = info.signature;
+
+        // The status filter can be applied before fetching the transaction
+        if (options.status === "failed" && !info.err) continue;
+        if (options.status === "confirmed" && info.err) continue;
+
+        const details = await this.getDetails(info, address);
+        if (options.direction && details.direction !== options.direction) {
+          continue;
+        }
+
+        transactions.push(details);
+        if (transactions.length >= limit) {
+          return { transactions, nextBefore: info.signature };
+        }
+      }
+
+      if (signatures.length < PAGE_SIZE) {
+        return { transactions };
+      }
+    }
+
+    return { transactions, nextBefore: before };
+  }
+
+  /**
+   * Fetch and parse a transaction from the point of view of one wallet
+   */
+  private async getDetails(
+    info: ConfirmedSignatureInfo,
+    address: PublicKey
+  ): Promise<TransactionDetails> {
+    const transaction = await this.transferManager.getTransactionDetails(
+      info.signature
+    );
+
+    if (!transaction || !transaction.meta) {
+      // Transaction data may be pruned by the RPC node
+      return {
+        signature: info.signature,
+        from: "",
+        to: "",
+        amount: 0n,
+        fee: 0n,
+        timestamp: info.blockTime ?? undefined,
+        status: info.err ? "failed" : "confirmed",
+        slot: info.slot,
+        error: info.err ? JSON.stringify(info.err) : undefined,
+      };
+    }
+
+    return parseTransaction(info.signature, transaction, address);
+  }
+}
+
+/**
+ * Work out direction, counterparty and amount of a transaction from the
+ * SOL balance changes of its accounts
+ */
+export function parseTransaction(
+  signature: string,
+  transaction: VersionedTransactionResponse,
+  address: PublicKey
+): TransactionDetails {
+  const meta = transaction.meta!;
+  const accountKeys = transaction.transaction.message.getAccountKeys({
+    accountKeysFromLookups: meta.loadedAddresses,
+  });
+  const keys = accountKeys.keySegments().flat();
+  // Add the fee back to the fee payer so every delta is transferred value
+  const deltas = meta.postBalances.map(
+    (post, index) =>
+      post - meta.preBalances[index] + (index === 0 ? meta.fee : 0)
+  );
+
+  const walletIndex = keys.findIndex((key) => key.equals(address));
+  const paidFee = walletIndex === 0;
+  const walletDelta = walletIndex === -1 ? 0 : deltas[walletIndex];
+
+  let direction: TransactionDirection = "none";
+  if (walletDelta > 0) direction = "incoming";
+  if (walletDelta < 0) direction = "outgoing";
+
+  // The counterparty is the account with the largest opposite balance change
+  let counterpartyIndex = -1;
+  deltas.forEach((delta, index) => {
+    if (
+      walletDelta === 0 ||
+      index === walletIndex ||
+      Math.sign(delta) !== -Math.sign(walletDelta)
+    ) {
+      return;
+    }
+    if (
+      counterpartyIndex === -1 ||
+      Math.abs(delta) > Math.abs(deltas[counterpartyIndex])
+    ) {
+      counterpartyIndex = index;
+    }
+  });
+  const counterparty =
+    counterpartyIndex === -1 ? undefined : keys[counterpartyIndex].toBase58();
+
+  const wallet = address.toBase58();
+  return {
+    signature,
+    from: direction === "incoming" ? (counterparty ?? "") : wallet,
+    to: direction === "incoming" ? wallet : (counterparty ?? ""),
+    amount: BigInt(Math.abs(walletDelta)),
+    fee: paidFee ? BigInt(meta.fee) : 0n,
+    timestamp: transaction.blockTime ?? undefined,
+    status: meta.err ? "failed" : "confirmed",
+    direction,
+    counterparty,
+    slot: transaction.slot,
+    error: meta.err ? JSON.stringify(meta.err) : undefined,
+  };
+}
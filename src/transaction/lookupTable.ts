@@ -0,0 +1,252 @@
+import {
+  AddressLookupTableAccount,
+  AddressLookupTableProgram,
+  Commitment,
+  Connection,
+  Keypair,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  sendAndConfirmTransaction,
+  SendTransactionError,
+} from "@solana/web3.js";
+import { LookupTableInfo, ManagerOptions } from "../types";
+import { InvalidInputError, TransactionFailedError } from "../utils/errors";
+import { Logger, silentLogger } from "../utils/logger";
+
+// Addresses a lookup table can hold
+export const MAX_LOOKUP_TABLE_ADDRESSES = 256;
+// Addresses added per extend transaction, well within the packet size
+const ADDRESSES_PER_EXTEND = 20;
+// A deactivated table can be closed once its deactivation slot has left
+// the SlotHashes sysvar
+const DEACTIVATION_COOLDOWN_SLOTS = 513;
+const SLOT_DURATION_SECONDS = 0.4;
+
+export class LookupTableManager {
+  private connection: Connection;
+  private logger: Logger;
+
+  constructor(connection: Connection, options: ManagerOptions = {}) {
+    this.connection = connection;
+    this.logger = options.logger ?? silentLogger;
+  }
+
+  /**
+   * Create an empty lookup table with the wallet as authority and payer
+   */
+  async create(
+    authority: Keypair
+  ): Promise<{ address: PublicKey; signature: string }> {
+    const recentSlot = await this.connection.getSlot("finalized");
+    const [instruction, address] = AddressLookupTableProgram.createLookupTable({
+      authority: authority.publicKey,
+      payer: authority.publicKey,
+      recentSlot,
+    });
+
+    this.logger.info(`🔍 Creating lookup table ${address.toBase58()}`);
+    const signature = await this.sendInstruction(instruction, authority);
+    return { address, signature };
+  }
+
+  /**
+   * Add addresses to a lookup table, skipping ones it already holds.
+   * Large lists are split over several transactions.
+   */
+  async extend(
+    authority: Keypair,
+    address: PublicKey,
+    addresses: PublicKey[]
+  ): Promise<string[]> {
+    const table = await this.assertAuthority(authority.publicKey, address);
+    if (!table.isActive()) {
+      throw new InvalidInputError(
+        `Lookup table ${address.toBase58()} is deactivated and cannot be extended`
+      );
+    }
+
+    const known = new Set(table.state.addresses.map((key) => key.toBase58()));
+    const added = addresses.filter((key) => {
+      const isNew = !known.has(key.toBase58());
+      known.add(key.toBase58());
+      return isNew;
+    });
+    if (added.length === 0) {
+      throw new InvalidInputError(
+        "The lookup table already holds all of these addresses"
+      );
+    }
+    if (known.size > MAX_LOOKUP_TABLE_ADDRESSES) {
+      throw new InvalidInputError(
+        `A lookup table holds at most ${MAX_LOOKUP_TABLE_ADDRESSES} addresses; this would make ${known.size}`
+      );
+    }
+
+    const signatures: string[] = [];
+    for (let start = 0; start < added.length; start += ADDRESSES_PER_EXTEND) {
+      const chunk = added.slice(start, start + ADDRESSES_PER_EXTEND);
+      this.logger.info(
+        `➕ Adding ${chunk.length} address(es) (${start + chunk.length}/${
+          added.length
+        })`
+      );
+      signatures.push(
+        await this.sendInstruction(
+          AddressLookupTableProgram.extendLookupTable({
+            lookupTable: address,
+            authority: authority.publicKey,
+            payer: authority.publicKey,
+            addresses: chunk,
+          }),
+          authority
+        )
+      );
+    }
+    return signatures;
+  }
+
+  /**
+   * Read the authority, addresses and status of a lookup table
+   */
+  async getLookupTable(address: PublicKey): Promise<LookupTableInfo> {
+    const [table] = await this.loadLookupTables([address]);
+    const active = table.isActive();
+    return {
+      address: address.toBase58(),
+      authority: table.state.authority?.toBase58(),
+      addresses: table.state.addresses.map((key) => key.toBase58()),
+      active,
+      deactivationSlot: active
+        ? undefined
+        : Number(table.state.deactivationSlot),
+      lastExtendedSlot: table.state.lastExtendedSlot,
+    };
+  }
+
+  /**
+   * Fetch lookup tables for compiling v0 transactions
+   */
+  async loadLookupTables(
+    addresses: PublicKey[]
+  ): Promise<AddressLookupTableAccount[]> {
+    return Promise.all(
+      addresses.map(async (address) => {
+        const { value } = await this.connection.getAddressLookupTable(address);
+        if (!value) {
+          throw new InvalidInputError(
+            `Lookup table ${address.toBase58()} does not exist`
+          );
+        }
+        return value;
+      })
+    );
+  }
+
+  /**
+   * Deactivate a lookup table so it can be closed after a cooldown of about
+   * 500 slots. Transactions can no longer use it.
+   */
+  async deactivate(authority: Keypair, address: PublicKey): Promise<string> {
+    const table = await this.assertAuthority(authority.publicKey, address);
+    if (!table.isActive()) {
+      throw new InvalidInputError(
+        `Lookup table ${address.toBase58()} is already deactivated`
+      );
+    }
+
+    return this.sendInstruction(
+      AddressLookupTableProgram.deactivateLookupTable({
+        lookupTable: address,
+        authority: authority.publicKey,
+      }),
+      authority
+    );
+  }
+
+  /**
+   * Close a deactivated lookup table and reclaim its rent
+   */
+  async close(
+    authority: Keypair,
+    address: PublicKey,
+    recipient: PublicKey = authority.publicKey
+  ): Promise<string> {
+    const table = await this.assertAuthority(authority.publicKey, address);
+    if (table.isActive()) {
+      throw new InvalidInputError(
+        `Lookup table ${address.toBase58()} must be deactivated before it can be closed`
+      );
+    }
+
+    const slot = await this.connection.getSlot(this.getCommitment());
+    const remaining =
+      Number(table.state.deactivationSlot) + DEACTIVATION_COOLDOWN_SLOTS - slot;
+    if (remaining > 0) {
+      throw new InvalidInputError(
+        `Lookup table ${address.toBase58()} is still cooling down. It can be closed in about ${remaining} slots (~${Math.ceil(
+          (remaining * SLOT_DURATION_SECONDS) / 60
+        )} min).`
+      );
+    }
+
+    return this.sendInstruction(
+      AddressLookupTableProgram.closeLookupTable({
+        lookupTable: address,
+        authority: authority.publicKey,
+        recipient,
+      }),
+      authority
+    );
+  }
+
+  private async assertAuthority(
+    authority: PublicKey,
+    address: PublicKey
+  ): Promise<AddressLookupTableAccount> {
+    const [table] = await this.loadLookupTables([address]);
+    if (!table.state.authority) {
+      throw new InvalidInputError(
+        `Lookup table ${address.toBase58()} is frozen and cannot be changed`
+      );
+    }
+    if (!table.state.authority.equals(authority)) {
+      throw new InvalidInputError(
+        `Wallet ${authority.toBase58()} is not the authority of lookup table ${address.toBase58()} (authority: ${table.state.authority.toBase58()})`
+      );
+    }
+    return table;
+  }
+
+  private async sendInstruction(
+    instruction: TransactionInstruction,
+    signer: Keypair
+  ): Promise<string> {
+    try {
+      return await sendAndConfirmTransaction(
+        this.connection,
+        new Transaction().add(instruction),
+        [signer],
+        {
+          commitment: this.getCommitment(),
+          maxRetries: 3,
+        }
+      );
+    } catch (error) {
+      if (error instanceof SendTransactionError) {
+        const logs = await error.getLogs(this.connection);
+        throw new TransactionFailedError(
+          `Transaction failed: ${error.message}\nLogs: ${
+            logs?.join("\n") || "No logs available"
+          }`,
+          { logs }
+        );
+      }
+      throw error;
+    }
+  }
+
+  private getCommitment(): Commitment {
+    return this.connection.commitment ?? "confirmed";
+  }
+}
@@ -0,0 +1,240 @@
+import {
+  Commitment,
+  Connection,
+  Keypair,
+  NONCE_ACCOUNT_LENGTH,
+  NonceAccount,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  sendAndConfirmTransaction,
+  SendTransactionError,
+} from "@solana/web3.js";
+import { ManagerOptions, NonceAccountInfo } from "../types";
+import {
+  InsufficientFundsError,
+  InvalidInputError,
+  TransactionFailedError,
+} from "../utils/errors";
+import { formatBalance, toInstructionLamports } from "../utils/helpers";
+import { Logger, silentLogger } from "../utils/logger";
+
+export class NonceManager {
+  private connection: Connection;
+  private logger: Logger;
+
+  constructor(connection: Connection, options: ManagerOptions = {}) {
+    this.connection = connection;
+    this.logger = options.logger ?? silentLogger;
+  }
+
+  /**
+   * Create and initialize a new nonce account funded by the payer
+   */
+  async createNonceAccount(
+    payer: Keypair,
+    authority: PublicKey = payer.publicKey,
+    extraLamports: bigint = 0n
+  ): Promise<{ address: PublicKey; signature: string }> {
+    const nonceKeypair = Keypair.generate();
+    const rentLamports = BigInt(
+      await this.connection.getMinimumBalanceForRentExemption(
+        NONCE_ACCOUNT_LENGTH
+      )
+    );
+    const lamports = rentLamports + extraLamports;
+
+    const balance = BigInt(await this.connection.getBalance(payer.publicKey));
+    if (balance < lamports) {
+      throw new InsufficientFundsError(
+        `Insufficient balance. You have ${formatBalance(
+          balance
+        )} SOL, but creating a nonce account needs ${formatBalance(
+          lamports
+        )} SOL plus fees`,
+        balance,
+        lamports
+      );
+    }
+
+    this.logger.info(
+      `🔍 Creating nonce account ${nonceKeypair.publicKey.toBase58()}`
+    );
+    this.logger.info(`💰 Funding: ${formatBalance(lamports)} SOL`);
+
+    const transaction = SystemProgram.createNonceAccount({
+      fromPubkey: payer.publicKey,
+      noncePubkey: nonceKeypair.publicKey,
+      authorizedPubkey: authority,
+      lamports: toInstructionLamports(lamports),
+    });
+
+    const signature = await this.send(transaction, [payer, nonceKeypair]);
+    return { address: nonceKeypair.publicKey, signature };
+  }
+
+  /**
+   * Read the current nonce and authority of a nonce account
+   */
+  async getNonceInfo(address: PublicKey): Promise<NonceAccountInfo> {
+    const accountInfo = await this.connection.getAccountInfo(address);
+    if (!accountInfo) {
+      throw new InvalidInputError(
+        `Nonce account ${address.toBase58()} does not exist`
+      );
+    }
+    if (
+      !accountInfo.owner.equals(SystemProgram.programId) ||
+      accountInfo.data.length !== NONCE_ACCOUNT_LENGTH
+    ) {
+      throw new InvalidInputError(
+        `${address.toBase58()} is not a nonce account`
+      );
+    }
+
+    const nonceAccount = NonceAccount.fromAccountData(accountInfo.data);
+    return {
+      address: address.toBase58(),
+      authority: nonceAccount.authorizedPubkey.toBase58(),
+      nonce: nonceAccount.nonce,
+      lamports: BigInt(accountInfo.lamports),
+      lamportsPerSignature: nonceAccount.feeCalculator.lamportsPerSignature,
+    };
+  }
+
+  /**
+   * Advance the stored nonce, invalidating transactions built with the old one
+   */
+  async advance(authority: Keypair, address: PublicKey): Promise<string> {
+    await this.assertAuthority(authority.publicKey, address);
+
+    return this.sendInstruction(
+      SystemProgram.nonceAdvance({
+        noncePubkey: address,
+        authorizedPubkey: authority.publicKey,
+      }),
+      authority
+    );
+  }
+
+  /**
+   * Hand the nonce authority to another key
+   */
+  async authorize(
+    authority: Keypair,
+    address: PublicKey,
+    newAuthority: PublicKey
+  ): Promise<string> {
+    await this.assertAuthority(authority.publicKey, address);
+
+    return this.sendInstruction(
+      SystemProgram.nonceAuthorize({
+        noncePubkey: address,
+        authorizedPubkey: authority.publicKey,
+        newAuthorizedPubkey: newAuthority,
+      }),
+      authority
+    );
+  }
+
+  /**
+   * Withdraw lamports from a nonce account. Withdrawing the full balance
+   * closes the account.
+   */
+  async withdraw(
+    authority: Keypair,
+    address: PublicKey,
+    to: PublicKey,
+    lamports?: bigint
+  ): Promise<string> {
+    const info = await this.assertAuthority(authority.publicKey, address);
+    const amount = lamports ?? info.lamports;
+    if (amount > info.lamports) {
+      throw new InsufficientFundsError(
+        `Nonce account ${address.toBase58()} only holds ${formatBalance(
+          info.lamports
+        )} SOL`,
+        info.lamports,
+        amount
+      );
+    }
+
+    const rentLamports = BigInt(
+      await this.connection.getMinimumBalanceForRentExemption(
+        NONCE_ACCOUNT_LENGTH
+      )
+    );
+    if (amount !== info.lamports && info.lamports - amount < rentLamports) {
+      throw new InvalidInputError(
+        `A nonce account must keep ${formatBalance(
+          rentLamports
+        )} SOL for rent. Withdraw at most ${formatBalance(
+          info.lamports - rentLamports
+        )} SOL or close it by withdrawing everything.`
+      );
+    }
+
+    return this.sendInstruction(
+      SystemProgram.nonceWithdraw({
+        noncePubkey: address,
+        authorizedPubkey: authority.publicKey,
+        toPubkey: to,
+        lamports: toInstructionLamports(amount),
+      }),
+      authority
+    );
+  }
+
+  private async assertAuthority(
+    authority: PublicKey,
+    address: PublicKey
+  ): Promise<NonceAccountInfo> {
+    const info = await this.getNonceInfo(address);
+    if (info.authority !== authority.toBase58()) {
+      throw new InvalidInputError(
+        `Wallet ${authority.toBase58()} is not the authority of nonce account ${address.toBase58()} (authority: ${info.authority})`
+      );
+    }
+    return info;
+  }
+
+  private async sendInstruction(
+    instruction: TransactionInstruction,
+    signer: Keypair
+  ): Promise<string> {
+    return this.send(new Transaction().add(instruction), [signer]);
+  }
+
+  private async send(
+    transaction: Transaction,
+    signers: Keypair[]
+  ): Promise<string> {
+    try {
+      return await sendAndConfirmTransaction(
+        this.connection,
+        transaction,
+        signers,
+        {
+          commitment: this.getCommitment(),
+          maxRetries: 3,
+        }
+      );
+    } catch (error) {
+      if (error instanceof SendTransactionError) {
+        const logs = await error.getLogs(this.connection);
+        throw new TransactionFailedError(
+          `Transaction failed: ${error.message}\nLogs: ${
+            logs?.join("\n") || "No logs available"
+          }`,
+          { logs }
+        );
+      }
+      throw error;
+    }
+  }
+
+  private getCommitment(): Commitment {
+    return this.connection.commitment ?? "confirmed";
+  }
+}
@@ -0,0 +1,204 @@
+import fs from "fs";
+import {
+  ComputeBudgetInstruction,
+  ComputeBudgetProgram,
+  Keypair,
+  PublicKey,
+  SystemInstruction,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import bs58 from "bs58";
+import { InvalidInputError } from "../utils/errors";
+import { formatBalance } from "../utils/helpers";
+
+/**
+ * Serialize a transaction (signed or not) as base64
+ */
+export function serializeTransaction(transaction: Transaction): string {
+  return transaction
+    .serialize({ requireAllSignatures: false, verifySignatures: false })
+    .toString("base64");
+}
+
+/**
+ * Read a base64 transaction from a file path or directly from the argument
+ */
+export function readTransaction(input: string): Transaction {
+  const data = fs.existsSync(input)
+    ? fs.readFileSync(input, "utf8").trim()
+    : input.trim();
+
+  try {
+    return Transaction.from(Buffer.from(data, "base64"));
+  } catch {
+    throw new InvalidInputError(
+      "Invalid transaction. Provide a base64 encoded transaction or a file containing one."
+    );
+  }
+}
+
+/**
+ * Write a base64 transaction to a file
+ */
+export function writeTransaction(
+  filePath: string,
+  transaction: Transaction
+): void {
+  fs.writeFileSync(filePath, serializeTransaction(transaction) + "\n");
+}
+
+/**
+ * Public keys that must sign the transaction, fee payer first
+ */
+export function getRequiredSigners(transaction: Transaction): PublicKey[] {
+  const message = transaction.compileMessage();
+  return message.accountKeys.slice(0, message.header.numRequiredSignatures);
+}
+
+/**
+ * Public keys whose signature is still missing
+ */
+export function getMissingSigners(transaction: Transaction): PublicKey[] {
+  return getRequiredSigners(transaction).filter((signer) => {
+    const entry = transaction.signatures.find(({ publicKey }) =>
+      publicKey.equals(signer)
+    );
+    return !entry || !entry.signature;
+  });
+}
+
+/**
+ * Sign a transaction without any network access.
+ * Returns the base58 signature produced by the keypair.
+ */
+export function signOffline(
+  transaction: Transaction,
+  keypair: Keypair
+): string {
+  const isRequired = getRequiredSigners(transaction).some((signer) =>
+    signer.equals(keypair.publicKey)
+  );
+  if (!isRequired) {
+    throw new InvalidInputError(
+      `Wallet ${keypair.publicKey.toBase58()} is not a required signer of this transaction`
+    );
+  }
+
+  transaction.partialSign(keypair);
+
+  const entry = transaction.signatures.find(({ publicKey }) =>
+    publicKey.equals(keypair.publicKey)
+  );
+  return bs58.encode(entry!.signature!);
+}
+
+/**
+ * Attach a signature given as "<pubkey>=<signature>" (solana CLI style)
+ */
+export function addSignature(transaction: Transaction, pair: string): void {
+  const [publicKey, signature] = pair.split("=");
+  if (!publicKey || !signature) {
+    throw new InvalidInputError(
+      `Invalid signature "${pair}". Use the format <pubkey>=<signature>`
+    );
+  }
+
+  transaction.addSignature(
+    new PublicKey(publicKey),
+    Buffer.from(bs58.decode(signature))
+  );
+  if (!transaction.verifySignatures(false)) {
+    throw new InvalidInputError(
+      `Signature for ${publicKey} does not match the transaction`
+    );
+  }
+}
+
+/**
+ * Human-readable summary of a transaction so the signer can verify it
+ */
+export function describeTransaction(transaction: Transaction): string[] {
+  const lines = [
+    `Fee payer: ${transaction.feePayer?.toBase58() ?? "not set"}`,
+    `Recent blockhash: ${transaction.recentBlockhash ?? "not set"}`,
+    `Instructions (${transaction.instructions.length}):`,
+  ];
+
+  transaction.instructions.forEach((instruction, index) => {
+    lines.push(`  ${index + 1}. ${describeInstruction(instruction)}`);
+  });
+
+  const signers = getRequiredSigners(transaction);
+  const missing = getMissingSigners(transaction);
+  lines.push(`Signers (${signers.length - missing.length}/${signers.length}):`);
+  signers.forEach((signer) => {
+    const signed = !missing.some((key) => key.equals(signer));
+    const role = transaction.feePayer?.equals(signer) ? " (fee payer)" : "";
+    lines.push(`  ${signed ? "✅" : "⏳"} ${signer.toBase58()}${role}`);
+  });
+  if (missing.length > 0) {
+    lines.push(
+      `Waiting for ${missing.length} more signature${
+        missing.length === 1 ? "" : "s"
+      } before it can be broadcast`
+    );
+  }
+
+  return lines;
+}
+
+function describeInstruction(instruction: TransactionInstruction): string {
+  if (instruction.programId.equals(SystemProgram.programId)) {
+    try {
+      const type = SystemInstruction.decodeInstructionType(instruction);
+      if (type === "Transfer") {
+        const { fromPubkey, toPubkey, lamports } =
+          SystemInstruction.decodeTransfer(instruction);
+        return `System transfer of ${formatBalance(
+          lamports
+        )} SOL from ${fromPubkey.toBase58()} to ${toPubkey.toBase58()}`;
+      }
+      if (type === "AdvanceNonceAccount") {
+        const { noncePubkey, authorizedPubkey } =
+          SystemInstruction.decodeNonceAdvance(instruction);
+        return `Advance durable nonce ${noncePubkey.toBase58()} (authority ${authorizedPubkey.toBase58()})`;
+      }
+      return `System program: ${type}`;
+    } catch {
+      // Fall through to the generic description
+    }
+  }
+
+  if (instruction.programId.equals(ComputeBudgetProgram.programId)) {
+    try {
+      const type = ComputeBudgetInstruction.decodeInstructionType(instruction);
+      if (type === "SetComputeUnitLimit") {
+        const { units } =
+          ComputeBudgetInstruction.decodeSetComputeUnitLimit(instruction);
+        return `Set compute unit limit to ${units}`;
+      }
+      if (type === "SetComputeUnitPrice") {
+        const { microLamports } =
+          ComputeBudgetInstruction.decodeSetComputeUnitPrice(instruction);
+        return `Set priority fee to ${microLamports} micro-lamports per compute unit`;
+      }
+      return `Compute budget: ${type}`;
+    } catch {
+      // Fall through to the generic description
+    }
+  }
+
+  const accounts = instruction.keys
+    .map(
+      ({ pubkey, isSigner, isWritable }) =>
+        `${pubkey.toBase58()}${isSigner ? " (signer)" : ""}${
+          isWritable ? " (writable)" : ""
+        }`
+    )
+    .join(", ");
+  return `Program ${instruction.programId.toBase58()} with ${
+    instruction.data.length
+  } bytes of data; accounts: ${accounts || "none"}`;
+}
@@ -0,0 +1,182 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ComputeBudgetInstruction,
+  ComputeBudgetProgram,
+  Connection,
+  Keypair,
+  SystemProgram,
+  Transaction,
+} from "@solana/web3.js";
+import { InvalidInputError } from "../utils/errors";
+import {
+  MAX_COMPUTE_UNIT_LIMIT,
+  PriorityFeeManager,
+  TRANSFER_COMPUTE_UNIT_LIMIT,
+  addComputeBudgetInstructions,
+  getPriorityFeeLamports,
+  parseComputeUnitLimit,
+  parsePriorityFee,
+} from "./priorityFee";
+
+function mockConnection(fees: number[]): Connection {
+  return {
+    getRecentPrioritizationFees: async () =>
+      fees.map((prioritizationFee, slot) => ({ slot, prioritizationFee })),
+  } as unknown as Connection;
+}
+
+describe("parsePriorityFee", () => {
+  test("accepts micro-lamports and auto", () => {
+    assert.equal(parsePriorityFee("0"), 0);
+    assert.equal(parsePriorityFee(" 25000 "), 25_000);
+    assert.equal(parsePriorityFee("AUTO"), "auto");
+  });
+
+  test("rejects anything else", () => {
+    for (const value of ["", "-1", "1.5", "1e3", "fast"]) {
+      assert.throws(() => parsePriorityFee(value), InvalidInputError);
+    }
+  });
+});
+
+describe("parseComputeUnitLimit", () => {
+  test("accepts whole numbers up to the runtime cap", () => {
+    assert.equal(parseComputeUnitLimit("1"), 1);
+    assert.equal(
+      parseComputeUnitLimit(String(MAX_COMPUTE_UNIT_LIMIT)),
+      MAX_COMPUTE_UNIT_LIMIT
+    );
+  });
+
+  test("rejects zero, fractions and values over the cap", () => {
+    for (const value of [
+      "0",
+      "1.5",
+      "-5",
+      String(MAX_COMPUTE_UNIT_LIMIT + 1),
+    ]) {
+      assert.throws(() => parseComputeUnitLimit(value), InvalidInputError);
+    }
+  });
+});
+
+describe("getPriorityFeeLamports", () => {
+  test("is zero without a compute budget", () => {
+    assert.equal(getPriorityFeeLamports(), 0n);
+    assert.equal(
+      getPriorityFeeLamports({ microLamports: 0, computeUnitLimit: 200_000 }),
+      0n
+    );
+  });
+
+  test("rounds up to whole lamports", () => {
+    assert.equal(
+      getPriorityFeeLamports({ microLamports: 1, computeUnitLimit: 1_000 }),
+      1n
+    );
+    assert.equal(
+      getPriorityFeeLamports({ microLamports: 1_000, computeUnitLimit: 1_000 }),
+      1n
+    );
+    assert.equal(
+      getPriorityFeeLamports({ microLamports: 1_001, computeUnitLimit: 1_000 }),
+      2n
+    );
+  });
+
+  test("does not lose precision on large fees", () => {
+    assert.equal(
+      getPriorityFeeLamports({
+        microLamports: Number.MAX_SAFE_INTEGER,
+        computeUnitLimit: MAX_COMPUTE_UNIT_LIMIT,
+      }),
+      (BigInt(Number.MAX_SAFE_INTEGER) * BigInt(MAX_COMPUTE_UNIT_LIMIT) +
+        999_999n) /
+        1_000_000n
+    );
+  });
+});
+
+describe("addComputeBudgetInstructions", () => {
+  const transfer = () =>
+    new Transaction().add(
+      SystemProgram.transfer({
+        fromPubkey: Keypair.generate().publicKey,
+        toPubkey: Keypair.generate().publicKey,
+        lamports: 1,
+      })
+    );
+
+  test("prepends the limit and the price", () => {
+    const transaction = transfer();
+    addComputeBudgetInstructions(transaction, {
+      microLamports: 5_000,
+      computeUnitLimit: 1_000,
+    });
+
+    const [limit, price, last] = transaction.instructions;
+    assert.equal(transaction.instructions.length, 3);
+    assert.equal(
+      ComputeBudgetInstruction.decodeSetComputeUnitLimit(limit).units,
+      1_000
+    );
+    assert.equal(
+      ComputeBudgetInstruction.decodeSetComputeUnitPrice(price).microLamports,
+      5_000n
+    );
+    assert.ok(last.programId.equals(SystemProgram.programId));
+  });
+
+  test("leaves out a zero price", () => {
+    const transaction = transfer();
+    addComputeBudgetInstructions(transaction, {
+      microLamports: 0,
+      computeUnitLimit: 1_000,
+    });
+
+    assert.equal(transaction.instructions.length, 2);
+    assert.ok(
+      transaction.instructions[0].programId.equals(
+        ComputeBudgetProgram.programId
+      )
+    );
+  });
+});
+
+describe("PriorityFeeManager", () => {
+  test("reports percentiles of the recent fees", async () => {
+    const manager = new PriorityFeeManager(
+      mockConnection([90, 10, 80, 20, 70, 30, 60, 40, 50, 100])
+    );
+
+    assert.deepEqual(await manager.getRecentFeeLevels([]), {
+      low: 30,
+      medium: 50,
+      high: 80,
+      veryHigh: 90,
+    });
+    assert.deepEqual(
+      await new PriorityFeeManager(mockConnection([])).getRecentFeeLevels([]),
+      { low: 0, medium: 0, high: 0, veryHigh: 0 }
+    );
+  });
+
+  test("resolves the requested fee and limit", async () => {
+    const manager = new PriorityFeeManager(mockConnection([1, 2, 3, 4]));
+
+    assert.equal(await manager.resolve({}, []), undefined);
+    assert.deepEqual(await manager.resolve({ priorityFee: 7 }, []), {
+      microLamports: 7,
+      computeUnitLimit: TRANSFER_COMPUTE_UNIT_LIMIT,
+    });
+    assert.deepEqual(await manager.resolve({ computeUnitLimit: 50_000 }, []), {
+      microLamports: 0,
+      computeUnitLimit: 50_000,
+    });
+    assert.deepEqual(await manager.resolve({ priorityFee: "auto" }, [], 300), {
+      microLamports: 3,
+      computeUnitLimit: 300,
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import {
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  Transaction,
+} from "@solana/web3.js";
+import {
+  ComputeBudgetSettings,
+  ManagerOptions,
+  PriorityFeeLevels,
+  PriorityFeeOptions,
+} from "../types";
+import { InvalidInputError } from "../utils/errors";
+import { Logger, silentLogger } from "../utils/logger";
+
+// The runtime caps a transaction at 1.4M compute units
+export const MAX_COMPUTE_UNIT_LIMIT = 1_400_000;
+// A SOL transfer, optional nonce advance and both compute budget
+// instructions use 150 CU each; leave some headroom
+export const TRANSFER_COMPUTE_UNIT_LIMIT = 1_000;
+const MICRO_LAMPORTS_PER_LAMPORT = 1_000_000n;
+
+/**
+ * Parse a --priority-fee value: micro-lamports per compute unit or "auto"
+ */
+export function parsePriorityFee(value: string): number | "auto" {
+  if (value.trim().toLowerCase() === "auto") return "auto";
+  if (!/^\d+$/.test(value.trim())) {
+    throw new InvalidInputError(
+      `Invalid priority fee "${value}". Use micro-lamports per compute unit or "auto".`
+    );
+  }
+  return Number(value);
+}
+
+/**
+ * Parse a --compute-limit value
+ */
+export function parseComputeUnitLimit(value: string): number {
+  const limit = Number(value);
+  if (
+    !/^\d+$/.test(value.trim()) ||
+    limit < 1 ||
+    limit > MAX_COMPUTE_UNIT_LIMIT
+  ) {
+    throw new InvalidInputError(
+      `Invalid compute unit limit "${value}". Use a whole number between 1 and ${MAX_COMPUTE_UNIT_LIMIT}.`
+    );
+  }
+  return limit;
+}
+
+/**
+ * Lamports paid on top of the signature fee for a compute budget
+ */
+export function getPriorityFeeLamports(
+  settings?: ComputeBudgetSettings
+): bigint {
+  if (!settings) return 0n;
+  const microLamports =
+    BigInt(settings.microLamports) * BigInt(settings.computeUnitLimit);
+  // The runtime rounds up to whole lamports
+  return (
+    (microLamports + MICRO_LAMPORTS_PER_LAMPORT - 1n) /
+    MICRO_LAMPORTS_PER_LAMPORT
+  );
+}
+
+/**
+ * Prepend the compute budget instructions to a transaction
+ */
+export function addComputeBudgetInstructions(
+  transaction: Transaction,
+  settings: ComputeBudgetSettings
+): void {
+  const instructions = [
+    ComputeBudgetProgram.setComputeUnitLimit({
+      units: settings.computeUnitLimit,
+    }),
+  ];
+  if (settings.microLamports > 0) {
+    instructions.push(
+      ComputeBudgetProgram.setComputeUnitPrice({
+        microLamports: settings.microLamports,
+      })
+    );
+  }
+  transaction.instructions.unshift(...instructions);
+}
+
+export class PriorityFeeManager {
+  private connection: Connection;
+  private logger: Logger;
+
+  constructor(connection: Connection, options: ManagerOptions = {}) {
+    this.connection = connection;
+    this.logger = options.logger ?? silentLogger;
+  }
+
+  /**
+   * Percentiles of the priority fees paid in recent slots by transactions
+   * that lock the given accounts
+   */
+  async getRecentFeeLevels(accounts: PublicKey[]): Promise<PriorityFeeLevels> {
+    const recentFees = await this.connection.getRecentPrioritizationFees({
+      lockedWritableAccounts: accounts,
+    });
+    const fees = recentFees
+      .map(({ prioritizationFee }) => prioritizationFee)
+      .sort((a, b) => a - b);
+
+    return {
+      low: percentile(fees, 25),
+      medium: percentile(fees, 50),
+      high: percentile(fees, 75),
+      veryHigh: percentile(fees, 90),
+    };
+  }
+
+  /**
+   * Turn the user's options into concrete compute budget settings.
+   * "auto" pays the 75th percentile of recent fees. Returns undefined when neither a fee nor a limit was requested.
+   */
+  async resolve(
+    options: PriorityFeeOptions,
+    accounts: PublicKey[],
+    defaultComputeUnitLimit: number = TRANSFER_COMPUTE_UNIT_LIMIT
+  ): Promise<ComputeBudgetSettings | undefined> {
+    if (
+      options.priorityFee === undefined &&
+      options.computeUnitLimit === undefined
+    ) {
+      return undefined;
+    }
+
+    let microLamports = 0;
+    if (options.priorityFee === "auto") {
+      const levels = await this.getRecentFeeLevels(accounts);
+      microLamports = levels.high;
+      this.logger.info(
+        `📈 Recent priority fees (µlamports/CU): low ${levels.low}, medium ${levels.medium}, high ${levels.high}, very high ${levels.veryHigh}`
+      );
+    } else if (options.priorityFee !== undefined) {
+      microLamports = options.priorityFee;
+    }
+
+    return {
+      microLamports,
+      computeUnitLimit: options.computeUnitLimit ?? defaultComputeUnitLimit,
+    };
+  }
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(
+    sorted.length - 1,
+    Math.ceil((p / 100) * sorted.length) - 1
+  );
+  return sorted[Math.max(0, index)];
+}
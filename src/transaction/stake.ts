@@ -0,0 +1,577 @@
+import {
+  AccountInfo,
+  Authorized,
+  Commitment,
+  Connection,
+  Keypair,
+  ParsedAccountData,
+  PublicKey,
+  StakeProgram,
+  Transaction,
+  VOTE_PROGRAM_ID,
+  sendAndConfirmTransaction,
+  SendTransactionError,
+} from "@solana/web3.js";
+import {
+  EpochProgress,
+  ManagerOptions,
+  StakeAccountInfo,
+  StakeState,
+  ValidatorSummary,
+} from "../types";
+import {
+  InsufficientFundsError,
+  InvalidInputError,
+  TransactionFailedError,
+} from "../utils/errors";
+import { formatBalance, toInstructionLamports } from "../utils/helpers";
+import { Logger, silentLogger } from "../utils/logger";
+
+// Epoch value of a stake that was never deactivated
+const NEVER = "18446744073709551615";
+// Offset of the withdraw authority in the stake account data
+const WITHDRAWER_OFFSET = 44;
+const SLOT_DURATION_SECONDS = 0.4;
+
+interface ParsedStakeAccount {
+  type: "uninitialized" | "initialized" | "delegated" | "rewardsPool";
+  info?: {
+    meta: {
+      rentExemptReserve: string;
+      authorized: { staker: string; withdrawer: string };
+      lockup: { unixTimestamp: number; epoch: number; custodian: string };
+    };
+    stake: {
+      delegation: {
+        voter: string;
+        stake: string;
+        activationEpoch: string;
+        deactivationEpoch: string;
+      };
+    } | null;
+  };
+}
+
+export class StakeManager {
+  private connection: Connection;
+  private logger: Logger;
+
+  constructor(connection: Connection, options: ManagerOptions = {}) {
+    this.connection = connection;
+    this.logger = options.logger ?? silentLogger;
+  }
+
+  /**
+   * Create a stake account holding `lamports` (plus its rent-exempt
+   * reserve) with the payer as stake and withdraw authority, and delegate
+   * it to a validator if a vote account is given
+   */
+  async createStakeAccount(
+    payer: Keypair,
+    lamports: bigint,
+    votePubkey?: PublicKey
+  ): Promise<{ address: PublicKey; signature: string }> {
+    const stakeKeypair = Keypair.generate();
+    const rentLamports = BigInt(
+      await this.connection.getMinimumBalanceForRentExemption(
+        StakeProgram.space
+      )
+    );
+
+    if (votePubkey) {
+      await this.assertVoteAccount(votePubkey);
+      const { value: minimumDelegation } =
+        await this.connection.getStakeMinimumDelegation();
+      if (lamports < BigInt(minimumDelegation)) {
+        throw new InvalidInputError(
+          `The minimum delegation is ${formatBalance(minimumDelegation)} SOL`
+        );
+      }
+    }
+
+    const total = lamports + rentLamports;
+    const balance = BigInt(await this.connection.getBalance(payer.publicKey));
+    if (balance < total) {
+      throw new InsufficientFundsError(
+        `Insufficient balance. You have ${formatBalance(
+          balance
+        )} SOL, but staking ${formatBalance(
+          lamports
+        )} SOL needs ${formatBalance(total)} SOL including the ${formatBalance(
+          rentLamports
+        )} SOL rent-exempt reserve, plus fees`,
+        balance,
+        total
+      );
+    }
+
+    this.logger.info(
+      `🔍 Creating stake account ${stakeKeypair.publicKey.toBase58()}`
+    );
+    this.logger.info(`💰 Funding: ${formatBalance(total)} SOL`);
+
+    const transaction = StakeProgram.createAccount({
+      fromPubkey: payer.publicKey,
+      stakePubkey: stakeKeypair.publicKey,
+      authorized: new Authorized(payer.publicKey, payer.publicKey),
+      lamports: toInstructionLamports(total),
+    });
+    if (votePubkey) {
+      this.logger.info(`🗳️  Delegating to ${votePubkey.toBase58()}`);
+      transaction.add(
+        StakeProgram.delegate({
+          stakePubkey: stakeKeypair.publicKey,
+          authorizedPubkey: payer.publicKey,
+          votePubkey,
+        })
+      );
+    }
+
+    const signature = await this.send(transaction, [payer, stakeKeypair]);
+    return { address: stakeKeypair.publicKey, signature };
+  }
+
+  /**
+   * Delegate an initialized or inactive stake account to a validator
+   */
+  async delegate(
+    authority: Keypair,
+    address: PublicKey,
+    votePubkey: PublicKey
+  ): Promise<string> {
+    const info = await this.assertAuthority(authority.publicKey, address);
+    if (info.state !== "initialized" && info.state !== "inactive") {
+      throw new InvalidInputError(
+        `Stake account ${address.toBase58()} is ${info.state}. Deactivate it and wait for the next epoch before delegating again.`
+      );
+    }
+    await this.assertVoteAccount(votePubkey);
+
+    return this.send(
+      StakeProgram.delegate({
+        stakePubkey: address,
+        authorizedPubkey: authority.publicKey,
+        votePubkey,
+      }),
+      [authority]
+    );
+  }
+
+  /**
+   * Vote accounts of the current validators, largest stake first
+   */
+  async getValidators(): Promise<ValidatorSummary[]> {
+    const { current, delinquent } = await this.connection.getVoteAccounts();
+    const toSummary =
+      (isDelinquent: boolean) =>
+      (account: (typeof current)[number]): ValidatorSummary => ({
+        votePubkey: account.votePubkey,
+        nodePubkey: account.nodePubkey,
+        commission: account.commission,
+        activatedStake: BigInt(account.activatedStake),
+        lastVote: account.lastVote,
+        delinquent: isDelinquent,
+      });
+
+    return [
+      ...current.map(toSummary(false)),
+      ...delinquent.map(toSummary(true)),
+    ].sort((a, b) =>
+      a.activatedStake === b.activatedStake
+        ? 0
+        : a.activatedStake > b.activatedStake
+          ? -1
+          : 1
+    );
+  }
+
+  /**
+   * Read the state, authorities and delegation of a stake account
+   */
+  async getStakeAccount(address: PublicKey): Promise<StakeAccountInfo> {
+    const [{ value: accountInfo }, progress] = await Promise.all([
+      this.connection.getParsedAccountInfo(address),
+      this.getEpochProgress(),
+    ]);
+    if (!accountInfo) {
+      throw new InvalidInputError(
+        `Stake account ${address.toBase58()} does not exist`
+      );
+    }
+    if (
+      !accountInfo.owner.equals(StakeProgram.programId) ||
+      !("parsed" in accountInfo.data)
+    ) {
+      throw new InvalidInputError(
+        `${address.toBase58()} is not a stake account`
+      );
+    }
+
+    return parseStakeAccount(
+      address,
+      accountInfo as AccountInfo<ParsedAccountData>,
+      progress.epoch
+    );
+  }
+
+  /**
+   * Stake accounts whose withdraw authority is the given wallet
+   */
+  async getStakeAccounts(withdrawer: PublicKey): Promise<StakeAccountInfo[]> {
+    const [accounts, progress] = await Promise.all([
+      this.connection.getParsedProgramAccounts(StakeProgram.programId, {
+        filters: [
+          {
+            memcmp: {
+              offset: WITHDRAWER_OFFSET,
+              bytes: withdrawer.toBase58(),
+            },
+          },
+        ],
+      }),
+      this.getEpochProgress(),
+    ]);
+
+    return accounts
+      .filter(({ account }) => {
+        const { parsed } = account.data as ParsedAccountData;
+        return parsed?.type === "initialized" || parsed?.type === "delegated";
+      })
+      .map(({ pubkey, account }) =>
+        parseStakeAccount(
+          pubkey,
+          account as AccountInfo<ParsedAccountData>,
+          progress.epoch
+        )
+      );
+  }
+
+  /**
+   * Position within the current epoch. Stake activates and deactivates at
+   * epoch boundaries.
+   */
+  async getEpochProgress(): Promise<EpochProgress> {
+    const { epoch, slotIndex, slotsInEpoch } =
+      await this.connection.getEpochInfo();
+    return {
+      epoch,
+      slotIndex,
+      slotsInEpoch,
+      secondsRemaining: Math.round(
+        (slotsInEpoch - slotIndex) * SLOT_DURATION_SECONDS
+      ),
+    };
+  }
+
+  /**
+   * Start deactivating a delegated stake account. Its lamports can be
+   * withdrawn once it is inactive, usually at the next epoch.
+   */
+  async deactivate(authority: Keypair, address: PublicKey): Promise<string> {
+    const info = await this.assertAuthority(authority.publicKey, address);
+    if (info.state !== "activating" && info.state !== "active") {
+      throw new InvalidInputError(
+        `Stake account ${address.toBase58()} is ${info.state}, not delegated`
+      );
+    }
+
+    return this.send(
+      StakeProgram.deactivate({
+        stakePubkey: address,
+        authorizedPubkey: authority.publicKey,
+      }),
+      [authority]
+    );
+  }
+
+  /**
+   * Move `lamports` of a stake account into a new stake account with the
+   * same authorities and delegation. The authority pays the new account's
+   * rent-exempt reserve.
+   */
+  async split(
+    authority: Keypair,
+    address: PublicKey,
+    lamports: bigint
+  ): Promise<{ address: PublicKey; signature: string }> {
+    const info = await this.assertAuthority(authority.publicKey, address);
+    if (lamports >= info.lamports) {
+      throw new InsufficientFundsError(
+        `Cannot split ${formatBalance(lamports)} SOL from a stake account holding ${formatBalance(
+          info.lamports
+        )} SOL`,
+        info.lamports,
+        lamports
+      );
+    }
+
+    const rentLamports =
+      await this.connection.getMinimumBalanceForRentExemption(
+        StakeProgram.space
+      );
+    const balance = await this.connection.getBalance(authority.publicKey);
+    if (balance < rentLamports) {
+      throw new InsufficientFundsError(
+        `Splitting needs ${formatBalance(
+          rentLamports
+        )} SOL from the wallet for the new account's rent-exempt reserve, plus fees`,
+        BigInt(balance),
+        BigInt(rentLamports)
+      );
+    }
+
+    const splitKeypair = Keypair.generate();
+    this.logger.info(
+      `🔍 Splitting ${formatBalance(lamports)} SOL into ${splitKeypair.publicKey.toBase58()}`
+    );
+    const signature = await this.send(
+      StakeProgram.split(
+        {
+          stakePubkey: address,
+          authorizedPubkey: authority.publicKey,
+          splitStakePubkey: splitKeypair.publicKey,
+          lamports: toInstructionLamports(lamports),
+        },
+        rentLamports
+      ),
+      [authority, splitKeypair]
+    );
+    return { address: splitKeypair.publicKey, signature };
+  }
+
+  /**
+   * Merge the source stake account into the destination, closing the
+   * source. Both must be inactive, or both active on the same validator.
+   */
+  async merge(
+    authority: Keypair,
+    destination: PublicKey,
+    source: PublicKey
+  ): Promise<string> {
+    if (destination.equals(source)) {
+      throw new InvalidInputError("Cannot merge a stake account into itself");
+    }
+    const target = await this.assertAuthority(authority.publicKey, destination);
+    const merged = await this.assertAuthority(authority.publicKey, source);
+
+    const transient: StakeState[] = ["activating", "deactivating"];
+    if (transient.includes(target.state) || transient.includes(merged.state)) {
+      throw new InvalidInputError(
+        "Stake accounts cannot be merged while activating or deactivating. Wait for the next epoch."
+      );
+    }
+    if (
+      target.state === "active" &&
+      merged.state === "active" &&
+      target.voter !== merged.voter
+    ) {
+      throw new InvalidInputError(
+        "Active stake accounts can only be merged if they are delegated to the same validator"
+      );
+    }
+
+    return this.send(
+      StakeProgram.merge({
+        stakePubkey: destination,
+        sourceStakePubKey: source,
+        authorizedPubkey: authority.publicKey,
+      }),
+      [authority]
+    );
+  }
+
+  /**
+   * Withdraw lamports from a stake account, by default everything that is
+   * withdrawable. Withdrawing the whole balance closes the account.
+   */
+  async withdraw(
+    authority: Keypair,
+    address: PublicKey,
+    to: PublicKey,
+    lamports?: bigint
+  ): Promise<string> {
+    const info = await this.getStakeAccount(address);
+    if (info.withdrawer !== authority.publicKey.toBase58()) {
+      throw new InvalidInputError(
+        `Wallet ${authority.publicKey.toBase58()} is not the withdraw authority of stake account ${address.toBase58()} (authority: ${info.withdrawer})`
+      );
+    }
+    if (info.lockup) {
+      throw new InvalidInputError(
+        `Stake account ${address.toBase58()} is locked until epoch ${info.lockup.epoch} (custodian: ${info.lockup.custodian})`
+      );
+    }
+
+    const amount = lamports ?? info.withdrawable;
+    if (amount === 0n || amount > info.withdrawable) {
+      throw new InsufficientFundsError(
+        `Only ${formatBalance(
+          info.withdrawable
+        )} SOL of this stake account can be withdrawn now${
+          info.state === "inactive" || info.state === "initialized"
+            ? ""
+            : ". Deactivate it and wait for the next epoch to withdraw the rest."
+        }`,
+        info.withdrawable,
+        amount
+      );
+    }
+    if (
+      amount !== info.lamports &&
+      info.lamports - amount < info.rentExemptReserve
+    ) {
+      throw new InvalidInputError(
+        `A stake account must keep ${formatBalance(
+          info.rentExemptReserve
+        )} SOL for rent. Withdraw at most ${formatBalance(
+          info.lamports - info.rentExemptReserve
+        )} SOL or close it by withdrawing everything.`
+      );
+    }
+
+    return this.send(
+      StakeProgram.withdraw({
+        stakePubkey: address,
+        authorizedPubkey: authority.publicKey,
+        toPubkey: to,
+        lamports: toInstructionLamports(amount),
+      }),
+      [authority]
+    );
+  }
+
+  private async assertAuthority(
+    authority: PublicKey,
+    address: PublicKey
+  ): Promise<StakeAccountInfo> {
+    const info = await this.getStakeAccount(address);
+    if (info.staker !== authority.toBase58()) {
+      throw new InvalidInputError(
+        `Wallet ${authority.toBase58()} is not the stake authority of stake account ${address.toBase58()} (authority: ${info.staker})`
+      );
+    }
+    return info;
+  }
+
+  private async assertVoteAccount(votePubkey: PublicKey): Promise<void> {
+    const accountInfo = await this.connection.getAccountInfo(votePubkey);
+    if (!accountInfo || !accountInfo.owner.equals(VOTE_PROGRAM_ID)) {
+      throw new InvalidInputError(
+        `${votePubkey.toBase58()} is not a validator vote account`
+      );
+    }
+  }
+
+  private async send(
+    transaction: Transaction,
+    signers: Keypair[]
+  ): Promise<string> {
+    try {
+      return await sendAndConfirmTransaction(
+        this.connection,
+        transaction,
+        signers,
+        {
+          commitment: this.getCommitment(),
+          maxRetries: 3,
+        }
+      );
+    } catch (error) {
+      if (error instanceof SendTransactionError) {
+        const logs = await error.getLogs(this.connection);
+        throw new TransactionFailedError(
+          `Transaction failed: ${error.message}\nLogs: ${
+            logs?.join("\n") || "No logs available"
+          }`,
+          { logs }
+        );
+      }
+      throw error;
+    }
+  }
+
+  private getCommitment(): Commitment {
+    return this.connection.commitment ?? "confirmed";
+  }
+}
+
+/**
+ * State of a stake account in the given epoch. Large changes of the total
+ * cluster stake are spread over several epochs by the warmup and cooldown
+ * rate; this ignores that and assumes a stake takes effect at the next
+ * epoch boundary, which holds for all but the largest stakes.
+ */
+function parseStakeAccount(
+  address: PublicKey,
+  account: AccountInfo<ParsedAccountData>,
+  currentEpoch: number
+): StakeAccountInfo {
+  const { type, info } = account.data.parsed as ParsedStakeAccount;
+  if (!info || (type !== "initialized" && type !== "delegated")) {
+    throw new InvalidInputError(
+      `${address.toBase58()} is not an initialized stake account`
+    );
+  }
+
+  const lamports = BigInt(account.lamports);
+  const rentExemptReserve = BigInt(info.meta.rentExemptReserve);
+  const { lockup } = info.meta;
+  const locked =
+    lockup.epoch > currentEpoch || lockup.unixTimestamp > Date.now() / 1000;
+
+  const result: StakeAccountInfo = {
+    address: address.toBase58(),
+    lamports,
+    rentExemptReserve,
+    staker: info.meta.authorized.staker,
+    withdrawer: info.meta.authorized.withdrawer,
+    state: "initialized",
+    lockup: locked ? lockup : undefined,
+    withdrawable: lamports,
+  };
+
+  const delegation = info.stake?.delegation;
+  if (type === "delegated" && delegation) {
+    const activationEpoch =
+      delegation.activationEpoch === NEVER
+        ? undefined
+        : Number(delegation.activationEpoch);
+    const deactivationEpoch =
+      delegation.deactivationEpoch === NEVER
+        ? undefined
+        : Number(delegation.deactivationEpoch);
+    const delegatedStake = BigInt(delegation.stake);
+
+    let state: StakeState;
+    if (deactivationEpoch !== undefined) {
+      state =
+        deactivationEpoch !== activationEpoch &&
+        currentEpoch <= deactivationEpoch
+          ? "deactivating"
+          : "inactive";
+    } else {
+      // Bootstrap stakes have no activation epoch and are always active
+      state =
+        activationEpoch !== undefined && currentEpoch <= activationEpoch
+          ? "activating"
+          : "active";
+    }
+
+    Object.assign(result, {
+      state,
+      voter: delegation.voter,
+      delegatedStake,
+      activationEpoch,
+      deactivationEpoch,
+    });
+    if (state !== "inactive") {
+      const excess = lamports - delegatedStake - rentExemptReserve;
+      result.withdrawable = excess > 0n ? excess : 0n;
+    }
+  }
+
+  if (locked) {
+    result.withdrawable = 0n;
+  }
+  return result;
+}
@@ -0,0 +1,283 @@
+import {
+  Commitment,
+  Connection,
+  Keypair,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  sendAndConfirmTransaction,
+  SendTransactionError,
+} from "@solana/web3.js";
+import {
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  Mint,
+  TokenAccountNotFoundError,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  createTransferCheckedWithTransferHookInstruction,
+  getAccount,
+  getAccountLenForMint,
+  getAssociatedTokenAddressSync,
+  getMint,
+} from "@solana/spl-token";
+import { ManagerOptions, TokenTransferPlan } from "../types";
+import {
+  formatBalance,
+  formatDecimalAmount,
+  parseDecimalAmount,
+} from "../utils/helpers";
+import {
+  InsufficientFundsError,
+  InvalidInputError,
+  TransactionFailedError,
+} from "../utils/errors";
+import { Logger, silentLogger } from "../utils/logger";
+
+const SIGNATURE_FEE_LAMPORTS = 5000;
+
+export class TokenTransferManager {
+  private connection: Connection;
+  private logger: Logger;
+
+  constructor(connection: Connection, options: ManagerOptions = {}) {
+    this.connection = connection;
+    this.logger = options.logger ?? silentLogger;
+  }
+
+  /**
+   * Load a mint and detect whether it belongs to Token or Token-2022
+   */
+  async getMintInfo(
+    mint: PublicKey
+  ): Promise<{ mint: Mint; programId: PublicKey }> {
+    const accountInfo = await this.connection.getAccountInfo(mint);
+    if (!accountInfo) {
+      throw new InvalidInputError(
+        `Mint ${mint.toBase58()} does not exist on this cluster`
+      );
+    }
+
+    const programId = accountInfo.owner;
+    if (
+      !programId.equals(TOKEN_PROGRAM_ID) &&
+      !programId.equals(TOKEN_2022_PROGRAM_ID)
+    ) {
+      throw new InvalidInputError(
+        `${mint.toBase58()} is not a token mint (owned by ${programId.toBase58()})`
+      );
+    }
+
+    return {
+      mint: await getMint(
+        this.connection,
+        mint,
+        this.getCommitment(),
+        programId
+      ),
+      programId,
+    };
+  }
+
+  /**
+   * Resolve everything needed for a token transfer so it can be reviewed
+   * before sending
+   */
+  async prepareTransfer(
+    owner: PublicKey,
+    mintAddress: PublicKey,
+    recipient: PublicKey,
+    amount: string
+  ): Promise<TokenTransferPlan> {
+    if (!PublicKey.isOnCurve(recipient.toBytes())) {
+      throw new InvalidInputError(
+        `Recipient ${recipient.toBase58()} is not a wallet address (off-curve). Send tokens to the owner wallet, not a token account or PDA.`
+      );
+    }
+
+    const { mint, programId } = await this.getMintInfo(mintAddress);
+    const rawAmount = parseDecimalAmount(amount, mint.decimals);
+    if (rawAmount <= 0n) {
+      throw new InvalidInputError("Amount must be greater than 0");
+    }
+
+    const sourceTokenAccount = getAssociatedTokenAddressSync(
+      mintAddress,
+      owner,
+      false,
+      programId
+    );
+    const sourceBalance = await this.getTokenBalance(
+      sourceTokenAccount,
+      programId
+    );
+    if (sourceBalance < rawAmount) {
+      throw new InsufficientFundsError(
+        `Insufficient token balance. You have ${formatDecimalAmount(
+          sourceBalance,
+          mint.decimals
+        )}, but tried to send ${formatDecimalAmount(rawAmount, mint.decimals)}`,
+        sourceBalance,
+        rawAmount
+      );
+    }
+
+    const destinationTokenAccount = getAssociatedTokenAddressSync(
+      mintAddress,
+      recipient,
+      false,
+      programId
+    );
+    const destinationInfo = await this.connection.getAccountInfo(
+      destinationTokenAccount
+    );
+    const createsDestinationAccount = destinationInfo === null;
+    const rentLamports = createsDestinationAccount
+      ? await this.connection.getMinimumBalanceForRentExemption(
+          getAccountLenForMint(mint)
+        )
+      : 0;
+
+    // The sender pays the signature fee plus rent for a new token account
+    const solBalance = await this.connection.getBalance(owner);
+    const requiredLamports = rentLamports + SIGNATURE_FEE_LAMPORTS;
+    if (solBalance < requiredLamports) {
+      throw new InsufficientFundsError(
+        `Insufficient balance. You have ${formatBalance(
+          solBalance
+        )} SOL, but need ${formatBalance(
+          requiredLamports
+        )} SOL for fees and the recipient's token account rent`,
+        BigInt(solBalance),
+        BigInt(requiredLamports)
+      );
+    }
+
+    return {
+      mint: mintAddress,
+      programId,
+      decimals: mint.decimals,
+      amount: rawAmount,
+      sourceTokenAccount,
+      sourceBalance,
+      recipient,
+      destinationTokenAccount,
+      createsDestinationAccount,
+      rentLamports,
+    };
+  }
+
+  /**
+   * Send a prepared token transfer, creating the recipient's associated
+   * token account when it is missing
+   */
+  async sendTransfer(
+    fromKeypair: Keypair,
+    plan: TokenTransferPlan
+  ): Promise<string> {
+    const transaction = new Transaction();
+
+    if (plan.createsDestinationAccount) {
+      // Idempotent so a concurrently created account does not fail the transfer
+      transaction.add(
+        createAssociatedTokenAccountIdempotentInstruction(
+          fromKeypair.publicKey,
+          plan.destinationTokenAccount,
+          plan.recipient,
+          plan.mint,
+          plan.programId
+        )
+      );
+    }
+
+    transaction.add(await this.createTransferInstruction(fromKeypair, plan));
+
+    const { blockhash } = await this.connection.getLatestBlockhash();
+    transaction.recentBlockhash = blockhash;
+    transaction.feePayer = fromKeypair.publicKey;
+
+    this.logger.info(`🚀 Sending token transfer...`);
+
+    try {
+      return await sendAndConfirmTransaction(
+        this.connection,
+        transaction,
+        [fromKeypair],
+        {
+          commitment: this.getCommitment(),
+          maxRetries: 3,
+        }
+      );
+    } catch (error) {
+      if (error instanceof SendTransactionError) {
+        const logs = await error.getLogs(this.connection);
+        throw new TransactionFailedError(
+          `Token transfer failed: ${error.message}\nLogs: ${
+            logs?.join("\n") || "No logs available"
+          }`,
+          { logs }
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the raw balance of a token account (0 if it does not exist)
+   */
+  private async getTokenBalance(
+    tokenAccount: PublicKey,
+    programId: PublicKey
+  ): Promise<bigint> {
+    try {
+      const account = await getAccount(
+        this.connection,
+        tokenAccount,
+        this.getCommitment(),
+        programId
+      );
+      return account.amount;
+    } catch (error) {
+      if (error instanceof TokenAccountNotFoundError) {
+        return 0n;
+      }
+      throw error;
+    }
+  }
+
+  private async createTransferInstruction(
+    fromKeypair: Keypair,
+    plan: TokenTransferPlan
+  ): Promise<TransactionInstruction> {
+    // Token-2022 mints may carry a transfer hook that needs extra accounts
+    if (plan.programId.equals(TOKEN_2022_PROGRAM_ID)) {
+      return createTransferCheckedWithTransferHookInstruction(
+        this.connection,
+        plan.sourceTokenAccount,
+        plan.mint,
+        plan.destinationTokenAccount,
+        fromKeypair.publicKey,
+        plan.amount,
+        plan.decimals,
+        [],
+        this.getCommitment(),
+        plan.programId
+      );
+    }
+
+    return createTransferCheckedInstruction(
+      plan.sourceTokenAccount,
+      plan.mint,
+      plan.destinationTokenAccount,
+      fromKeypair.publicKey,
+      plan.amount,
+      plan.decimals,
+      [],
+      plan.programId
+    );
+  }
+
+  private getCommitment(): Commitment {
+    return this.connection.commitment ?? "confirmed";
+  }
+}
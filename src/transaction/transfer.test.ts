@@ -0,0 +1,476 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  AccountInfo,
+  AddressLookupTableAccount,
+  Connection,
+  Keypair,
+  NONCE_ACCOUNT_LENGTH,
+  PublicKey,
+  SignatureStatus,
+  SignatureStatusConfig,
+  SystemInstruction,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { InsufficientFundsError, InvalidInputError } from "../utils/errors";
+import { RecipientAnalysis } from "../types";
+import { TransferManager, assertRecipientAllowed } from "./transfer";
+
+const BLOCKHASH = Keypair.generate().publicKey.toBase58();
+const LAST_VALID_BLOCK_HEIGHT = 1_000;
+const FEE = 5_000;
+
+interface MockChain {
+  balance: bigint;
+  accounts: Map<string, AccountInfo<Buffer>>;
+  // Signature status returned for every lookup after the first broadcast
+  status: SignatureStatus | null;
+  // Status found by a lookup that searches the transaction history
+  history?: SignatureStatus | null;
+  onSend?: (count: number) => void;
+  blockHeight: number;
+  sent: Buffer[];
+  simulated: VersionedTransaction[];
+}
+
+function mockChain(overrides: Partial<MockChain> = {}): MockChain {
+  return {
+    balance: 10_000_000_000n,
+    accounts: new Map(),
+    status: null,
+    blockHeight: LAST_VALID_BLOCK_HEIGHT,
+    sent: [],
+    simulated: [],
+    ...overrides,
+  };
+}
+
+/**
+ * Just enough of a Connection to build, simulate and track transfers
+ */
+function mockConnection(chain: MockChain): Connection {
+  return {
+    commitment: "confirmed",
+    getAccountInfo: async (address: PublicKey) =>
+      chain.accounts.get(address.toBase58()) ?? null,
+    getMultipleAccountsInfo: async (addresses: PublicKey[]) =>
+      addresses.map(
+        (address) => chain.accounts.get(address.toBase58()) ?? null
+      ),
+    getMinimumBalanceForRentExemption: async () => 890_880,
+    getBalance: async () => Number(chain.balance),
+    getSlot: async () => 1,
+    getLatestBlockhash: async () => ({
+      blockhash: BLOCKHASH,
+      lastValidBlockHeight: LAST_VALID_BLOCK_HEIGHT,
+    }),
+    getFeeForMessage: async () => ({ context: { slot: 1 }, value: FEE }),
+    getBlockHeight: async () => chain.blockHeight,
+    simulateTransaction: async (transaction: VersionedTransaction) => {
+      chain.simulated.push(transaction);
+      return { context: { slot: 1 }, value: { err: null, logs: [] } };
+    },
+    sendRawTransaction: async (rawTransaction: Buffer) => {
+      chain.sent.push(rawTransaction);
+      chain.onSend?.(chain.sent.length);
+      return "";
+    },
+    getSignatureStatuses: async (
+      _signatures: string[],
+      config?: SignatureStatusConfig
+    ) => ({
+      context: { slot: 1 },
+      value: [
+        config?.searchTransactionHistory && chain.history !== undefined
+          ? chain.history
+          : chain.sent.length > 0
+            ? chain.status
+            : null,
+      ],
+    }),
+  } as unknown as Connection;
+}
+
+function landed(): SignatureStatus {
+  return {
+    slot: 7,
+    confirmations: null,
+    err: null,
+    confirmationStatus: "confirmed",
+  };
+}
+
+/**
+ * An initialized nonce account as stored on chain
+ */
+function nonceAccount(authority: PublicKey, nonce: PublicKey) {
+  const data = Buffer.alloc(NONCE_ACCOUNT_LENGTH);
+  data.writeUInt32LE(1, 0); // current version
+  data.writeUInt32LE(1, 4); // initialized
+  authority.toBuffer().copy(data, 8);
+  nonce.toBuffer().copy(data, 40);
+  data.writeBigUInt64LE(5_000n, 72);
+  return {
+    data,
+    owner: SystemProgram.programId,
+    lamports: 1_447_680,
+    executable: false,
+    rentEpoch: 0,
+  };
+}
+
+function lookupTable(addresses: PublicKey[]): AddressLookupTableAccount {
+  return new AddressLookupTableAccount({
+    key: Keypair.generate().publicKey,
+    state: {
+      deactivationSlot: BigInt("18446744073709551615"),
+      lastExtendedSlot: 0,
+      lastExtendedSlotStartIndex: 0,
+      authority: undefined,
+      addresses,
+    },
+  });
+}
+
+function recipients(count: number, lamports: bigint = 1_000_000n) {
+  return Array.from({ length: count }, () => ({
+    to: Keypair.generate().publicKey,
+    lamports,
+  }));
+}
+
+function decodeTransfers(
+  transaction: VersionedTransaction,
+  lookupTables: AddressLookupTableAccount[]
+) {
+  return TransactionMessage.decompile(transaction.message, {
+    addressLookupTableAccounts: lookupTables,
+  })
+    .instructions.filter(
+      (instruction) =>
+        instruction.programId.equals(SystemProgram.programId) &&
+        SystemInstruction.decodeInstructionType(instruction) === "Transfer"
+    )
+    .map((instruction) => SystemInstruction.decodeTransfer(instruction));
+}
+
+describe("TransferManager v0 transfers", () => {
+  const sender = Keypair.generate();
+
+  test("references recipients through the lookup tables", async () => {
+    const payouts = recipients(40);
+    const table = lookupTable(payouts.map(({ to }) => to));
+    const manager = new TransferManager(mockConnection(mockChain()));
+
+    const { transaction, lastValidBlockHeight } =
+      await manager.buildVersionedTransfer(sender.publicKey, payouts, [table]);
+
+    assert.equal(transaction.version, 0);
+    assert.equal(lastValidBlockHeight, LAST_VALID_BLOCK_HEIGHT);
+    assert.equal(transaction.message.recentBlockhash, BLOCKHASH);
+    assert.deepEqual(
+      transaction.message.addressTableLookups.map(({ accountKey }) =>
+        accountKey.toBase58()
+      ),
+      [table.key.toBase58()]
+    );
+    assert.deepEqual(
+      decodeTransfers(transaction, [table]).map(({ toPubkey, lamports }) => [
+        toPubkey.toBase58(),
+        lamports,
+      ]),
+      payouts.map(({ to, lamports }) => [to.toBase58(), lamports])
+    );
+  });
+
+  test("rejects a transaction over the packet size", async () => {
+    const manager = new TransferManager(mockConnection(mockChain()));
+
+    await assert.rejects(
+      manager.buildVersionedTransfer(sender.publicKey, recipients(40)),
+      (error) =>
+        error instanceof InvalidInputError &&
+        /over the 1232 byte limit/.test(error.message)
+    );
+  });
+
+  test("requires the amounts plus the fee", async () => {
+    const manager = new TransferManager(
+      mockConnection(mockChain({ balance: 2_000_000n }))
+    );
+
+    await assert.rejects(
+      manager.buildVersionedTransfer(sender.publicKey, recipients(2)),
+      (error) =>
+        error instanceof InsufficientFundsError &&
+        error.required === 2_000_000n + BigInt(FEE)
+    );
+    await assert.rejects(
+      manager.buildVersionedTransfer(sender.publicKey, recipients(1, 0n)),
+      InvalidInputError
+    );
+  });
+
+  test("advances a durable nonce instead of using a blockhash", async () => {
+    const authority = Keypair.generate();
+    const nonceAddress = Keypair.generate().publicKey;
+    const nonce = Keypair.generate().publicKey;
+    const chain = mockChain();
+    chain.accounts.set(
+      nonceAddress.toBase58(),
+      nonceAccount(authority.publicKey, nonce)
+    );
+    const manager = new TransferManager(mockConnection(chain));
+
+    const { transaction, lastValidBlockHeight } =
+      await manager.buildVersionedTransfer(
+        sender.publicKey,
+        recipients(2),
+        [],
+        {
+          nonceAccount: nonceAddress,
+          nonceAuthority: authority.publicKey,
+        }
+      );
+
+    const [first] = TransactionMessage.decompile(
+      transaction.message
+    ).instructions;
+    assert.equal(lastValidBlockHeight, undefined);
+    assert.equal(transaction.message.recentBlockhash, nonce.toBase58());
+    assert.equal(
+      SystemInstruction.decodeInstructionType(first),
+      "AdvanceNonceAccount"
+    );
+    assert.equal(
+      SystemInstruction.decodeNonceAdvance(first).authorizedPubkey.toBase58(),
+      authority.publicKey.toBase58()
+    );
+  });
+
+  test("simulates first, sends once and tracks to confirmation", async () => {
+    const payouts = recipients(3);
+    const table = lookupTable(payouts.map(({ to }) => to));
+    const chain = mockChain({ status: landed() });
+    const sent: string[] = [];
+    const manager = new TransferManager(mockConnection(chain), {
+      hooks: { onSent: (signature) => sent.push(signature) },
+    });
+
+    const result = await manager.sendVersioned(sender, payouts, [table]);
+
+    assert.equal(result.status, "confirmed");
+    assert.equal(result.slot, 7);
+    assert.equal(result.from, sender.publicKey.toBase58());
+    assert.equal(result.amount, 3_000_000n);
+    assert.equal(result.fee, BigInt(FEE));
+    assert.equal(chain.simulated.length, 1);
+    assert.equal(chain.sent.length, 1);
+    assert.deepEqual(sent, [result.signature]);
+    assert.deepEqual(
+      VersionedTransaction.deserialize(chain.sent[0]).signatures,
+      chain.simulated[0].signatures
+    );
+  });
+
+  test("signs with a separate nonce authority", async () => {
+    const authority = Keypair.generate();
+    const nonceAddress = Keypair.generate().publicKey;
+    const chain = mockChain({ status: landed() });
+    chain.accounts.set(
+      nonceAddress.toBase58(),
+      nonceAccount(authority.publicKey, Keypair.generate().publicKey)
+    );
+    const manager = new TransferManager(mockConnection(chain));
+    const nonce = {
+      nonceAccount: nonceAddress,
+      nonceAuthority: authority.publicKey,
+    };
+
+    await assert.rejects(
+      manager.sendVersioned(sender, recipients(1), [], nonce),
+      (error) =>
+        error instanceof InvalidInputError &&
+        error.message.includes(authority.publicKey.toBase58())
+    );
+    assert.equal(chain.sent.length, 0);
+
+    const result = await manager.sendVersioned(
+      sender,
+      recipients(1),
+      [],
+      nonce,
+      undefined,
+      [authority]
+    );
+    assert.equal(result.status, "confirmed");
+    assert.equal(
+      VersionedTransaction.deserialize(chain.sent[0]).signatures.length,
+      2
+    );
+  });
+
+  test("simulates the balance changes of recipients in a lookup table", async () => {
+    const payouts = recipients(2);
+    const table = lookupTable(payouts.map(({ to }) => to));
+    const manager = new TransferManager(mockConnection(mockChain()));
+
+    const simulation = await manager.simulateVersionedTransfer(
+      sender.publicKey,
+      payouts,
+      [table]
+    );
+
+    assert.equal(simulation.error, undefined);
+    assert.equal(simulation.fee, BigInt(FEE));
+    assert.deepEqual(
+      simulation.balanceChanges.map(({ address }) => address),
+      [sender.publicKey, ...payouts.map(({ to }) => to)].map((key) =>
+        key.toBase58()
+      )
+    );
+  });
+});
+
+describe("TransferManager rebroadcast and expiry", () => {
+  const sender = Keypair.generate();
+
+  test("rebroadcasts until the transaction lands", async () => {
+    const chain = mockChain();
+    chain.onSend = (count) => {
+      if (count === 2) chain.status = landed();
+    };
+    const manager = new TransferManager(mockConnection(chain));
+
+    const result = await manager.sendVersioned(sender, recipients(1));
+
+    assert.equal(result.status, "confirmed");
+    assert.equal(chain.sent.length, 2);
+    assert.deepEqual(chain.sent[1], chain.sent[0]);
+  });
+
+  test("reports a failure on chain without rebroadcasting", async () => {
+    const chain = mockChain({
+      status: { ...landed(), err: { InstructionError: [0, { Custom: 1 }] } },
+    });
+    const manager = new TransferManager(mockConnection(chain));
+
+    const result = await manager.sendVersioned(sender, recipients(1));
+
+    assert.equal(result.status, "failed");
+    assert.equal(result.slot, 7);
+    assert.equal(result.errorType, "insufficient-funds");
+    assert.equal(chain.sent.length, 1);
+  });
+
+  test("fails safely once the blockhash expired unprocessed", async () => {
+    const chain = mockChain({ blockHeight: LAST_VALID_BLOCK_HEIGHT + 1 });
+    const manager = new TransferManager(mockConnection(chain));
+
+    const result = await manager.sendVersioned(sender, recipients(1));
+
+    assert.equal(result.status, "failed");
+    assert.equal(result.errorType, "blockhash-expired");
+    assert.match(result.error!, /safe to send again/);
+    assert.equal(chain.sent.length, 1);
+  });
+
+  test("reports a transaction found after its blockhash expired", async () => {
+    const chain = mockChain({
+      blockHeight: LAST_VALID_BLOCK_HEIGHT + 1,
+      history: { ...landed(), confirmationStatus: "processed" },
+    });
+    const manager = new TransferManager(mockConnection(chain));
+
+    const result = await manager.sendVersioned(sender, recipients(1));
+
+    assert.equal(result.status, "confirmed");
+    assert.equal(result.slot, 7);
+  });
+
+  test("treats an advanced durable nonce as expired", async () => {
+    const nonceAddress = Keypair.generate().publicKey;
+    const chain = mockChain({ blockHeight: LAST_VALID_BLOCK_HEIGHT + 1 });
+    const storeNonce = () =>
+      chain.accounts.set(
+        nonceAddress.toBase58(),
+        nonceAccount(sender.publicKey, Keypair.generate().publicKey)
+      );
+    storeNonce();
+    // Another transaction uses the nonce while this one is in flight
+    chain.onSend = storeNonce;
+    const manager = new TransferManager(mockConnection(chain));
+
+    const result = await manager.sendVersioned(sender, recipients(1), [], {
+      nonceAccount: nonceAddress,
+      nonceAuthority: sender.publicKey,
+    });
+
+    assert.equal(result.status, "failed");
+    assert.equal(result.errorType, "blockhash-expired");
+    assert.equal(chain.sent.length, 1);
+  });
+
+  test("keeps rebroadcasting while the nonce is unchanged", async () => {
+    const nonceAddress = Keypair.generate().publicKey;
+    // An expired blockhash must not matter to a durable nonce transaction
+    const chain = mockChain({ blockHeight: LAST_VALID_BLOCK_HEIGHT + 1 });
+    chain.accounts.set(
+      nonceAddress.toBase58(),
+      nonceAccount(sender.publicKey, Keypair.generate().publicKey)
+    );
+    chain.onSend = (count) => {
+      if (count === 2) chain.status = landed();
+    };
+    const manager = new TransferManager(mockConnection(chain));
+
+    const result = await manager.sendVersioned(sender, recipients(1), [], {
+      nonceAccount: nonceAddress,
+      nonceAuthority: sender.publicKey,
+    });
+
+    assert.equal(result.status, "confirmed");
+    assert.equal(chain.sent.length, 2);
+  });
+});
+
+describe("assertRecipientAllowed", () => {
+  const analysis: RecipientAnalysis = {
+    address: Keypair.generate().publicKey.toBase58(),
+    kind: "wallet",
+    lamports: 0n,
+    rentExemptMinimum: 890_880n,
+    warnings: [],
+  };
+
+  test("allows a plain wallet", () => {
+    assertRecipientAllowed(analysis);
+  });
+
+  test("refuses warnings unless they are accepted", () => {
+    const risky = {
+      ...analysis,
+      kind: "pda" as const,
+      warnings: ["off-curve"],
+    };
+
+    assert.throws(() => assertRecipientAllowed(risky), InvalidInputError);
+    assertRecipientAllowed(risky, true);
+  });
+
+  test("always refuses a blocked recipient", () => {
+    const program = {
+      ...analysis,
+      kind: "program" as const,
+      blocked: "program",
+    };
+
+    assert.throws(
+      () => assertRecipientAllowed(program, true),
+      (error) =>
+        error instanceof InvalidInputError && error.message === "program"
+    );
+  });
+});
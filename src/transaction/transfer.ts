@@ -1,116 +1,856 @@
 import {
+  AddressLookupTableAccount,
+  Commitment,
   Connection,
+  Finality,
   Keypair,
+  PACKET_DATA_SIZE,
   PublicKey,
+  SystemInstruction,
   SystemProgram,
   Transaction,
-  LAMPORTS_PER_SOL,
-  sendAndConfirmTransaction,
+  TransactionConfirmationStatus,
+  TransactionError,
+  TransactionInstruction,
+  TransactionMessage,
   SendTransactionError,
+  VersionedMessage,
+  VersionedTransaction,
 } from "@solana/web3.js";
+import bs58 from "bs58";
+import {
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  unpackAccount,
+} from "@solana/spl-token";
+import {
+  ComputeBudgetSettings,
+  DurableNonceParams,
+  RecipientAnalysis,
+  SimulationResult,
+  TransactionDetails,
+  TransferHooks,
+  TransferManagerOptions,
+  TransferRecipient,
+} from "../types";
+import {
+  InsufficientFundsError,
+  InvalidInputError,
+  NonSystemAccountError,
+  TransactionFailedError,
+  decodeTransactionError,
+} from "../utils/errors";
+import { formatBalance, sleep } from "../utils/helpers";
+import { Logger, silentLogger } from "../utils/logger";
+import { NonceManager } from "./nonce";
+import { getMissingSigners } from "./offline";
+import {
+  addComputeBudgetInstructions,
+  getPriorityFeeLamports,
+} from "./priorityFee";
+
+const REBROADCAST_INTERVAL_MS = 2_000;
+// Durable nonce transactions do not expire by block height, so tracking
+// gives up after this long and reports the transaction as pending
+const MAX_TRACKING_MS = 180_000;
+const CONFIRMATION_LEVELS: TransactionConfirmationStatus[] = [
+  "processed",
+  "confirmed",
+  "finalized",
+];
+
+interface OutgoingTransaction {
+  rawTransaction: Buffer;
+  signature: string;
+  message: VersionedMessage;
+  instructions: TransactionInstruction[];
+  feePayer: PublicKey;
+  recentBlockhash: string;
+  lastValidBlockHeight?: number;
+}
 
 export class TransferManager {
   private connection: Connection;
+  private logger: Logger;
+  private hooks: TransferHooks;
 
-  constructor(connection: Connection) {
+  constructor(connection: Connection, options: TransferManagerOptions = {}) {
     this.connection = connection;
+    this.logger = options.logger ?? silentLogger;
+    this.hooks = options.hooks ?? {};
   }
 
   /**
-   * Send SOL from one wallet to another
+   * Send lamports from one wallet to another. The returned status is
+   * "pending" only if the outcome could not be determined; never resend
+   * such a transaction without checking its signature first.
+   * A separate fee payer (a sponsor wallet) pays the fee instead of the
+   * sender; co-signers sign for any other required account, such as a
+   * nonce authority.
    */
   async sendSOL(
     fromKeypair: Keypair,
     toPublicKey: PublicKey,
-    amountSOL: number
-  ): Promise<string> {
-    const lamports = amountSOL * LAMPORTS_PER_SOL;
+    lamports: bigint,
+    nonce?: DurableNonceParams,
+    computeBudget?: ComputeBudgetSettings,
+    feePayer?: Keypair,
+    coSigners: Keypair[] = []
+  ): Promise<TransactionDetails> {
+    const transaction = await this.buildTransfer(
+      fromKeypair.publicKey,
+      toPublicKey,
+      lamports,
+      nonce,
+      computeBudget,
+      feePayer?.publicKey
+    );
+
+    // Sign exactly once: every rebroadcast reuses the same signature
+    const signers = [
+      fromKeypair,
+      ...(feePayer ? [feePayer] : []),
+      ...coSigners,
+    ];
+    transaction.partialSign(...signers);
+    const missing = getMissingSigners(transaction);
+    if (missing.length > 0) {
+      throw new InvalidInputError(
+        `Missing signatures from ${missing
+          .map((key) => key.toBase58())
+          .join(", ")}`
+      );
+    }
 
-    console.log(`🔍 Validating transaction...`);
-    console.log(`📤 From: ${fromKeypair.publicKey.toBase58()}`);
-    console.log(`📥 To: ${toPublicKey.toBase58()}`);
-    console.log(`💰 Amount: ${amountSOL} SOL`);
+    this.logger.info(`🚀 Sending transaction...`);
+    return this.broadcast(toOutgoing(transaction));
+  }
 
-    // Validate that the sender account is a valid system account
-    const senderAccountInfo = await this.connection.getAccountInfo(
-      fromKeypair.publicKey
+  /**
+   * Send lamports to several recipients in one v0 transaction. Recipients
+   * held in one of the lookup tables take one byte of the transaction
+   * instead of 32, so far more fit than in a legacy transaction.
+   * Like sendSOL, the transaction is simulated first and rebroadcast until
+   * it reaches a final status; co-signers sign for a nonce authority other
+   * than the sender.
+   */
+  async sendVersioned(
+    fromKeypair: Keypair,
+    recipients: TransferRecipient[],
+    lookupTables: AddressLookupTableAccount[] = [],
+    nonce?: DurableNonceParams,
+    computeBudget?: ComputeBudgetSettings,
+    coSigners: Keypair[] = []
+  ): Promise<TransactionDetails> {
+    const { transaction, lastValidBlockHeight } =
+      await this.buildVersionedTransfer(
+        fromKeypair.publicKey,
+        recipients,
+        lookupTables,
+        nonce,
+        computeBudget
+      );
+
+    // Sign exactly once: every rebroadcast reuses the same signature
+    transaction.sign([fromKeypair, ...coSigners]);
+    const { staticAccountKeys } = transaction.message;
+    const missing = transaction.signatures
+      .map((signature, index) => ({
+        signature,
+        signer: staticAccountKeys[index],
+      }))
+      .filter(({ signature }) => signature.every((byte) => byte === 0));
+    if (missing.length > 0) {
+      throw new InvalidInputError(
+        `Missing signatures from ${missing
+          .map(({ signer }) => signer.toBase58())
+          .join(", ")}`
+      );
+    }
+
+    this.logger.info(`🚀 Sending transaction...`);
+    return this.broadcast(
+      toOutgoing(transaction, lookupTables, lastValidBlockHeight)
+    );
+  }
+
+  /**
+   * Build exactly the transaction sendVersioned would send and simulate it
+   * instead
+   */
+  async simulateVersionedTransfer(
+    fromPublicKey: PublicKey,
+    recipients: TransferRecipient[],
+    lookupTables: AddressLookupTableAccount[] = [],
+    nonce?: DurableNonceParams,
+    computeBudget?: ComputeBudgetSettings
+  ): Promise<SimulationResult> {
+    const { transaction } = await this.buildVersionedTransfer(
+      fromPublicKey,
+      recipients,
+      lookupTables,
+      nonce,
+      computeBudget
     );
+
+    this.logger.info(`🧪 Simulating transaction...`);
+    return this.simulate(transaction, lookupTables);
+  }
+
+  /**
+   * Build an unsigned v0 transaction paying every recipient, after checking
+   * it fits in a packet and the sender can cover the amounts and the fee.
+   * With a durable nonce there is no lastValidBlockHeight.
+   */
+  async buildVersionedTransfer(
+    fromPublicKey: PublicKey,
+    recipients: TransferRecipient[],
+    lookupTables: AddressLookupTableAccount[] = [],
+    nonce?: DurableNonceParams,
+    computeBudget?: ComputeBudgetSettings
+  ): Promise<{
+    transaction: VersionedTransaction;
+    lastValidBlockHeight?: number;
+  }> {
+    if (recipients.length === 0) {
+      throw new InvalidInputError("At least one recipient is required");
+    }
+    if (recipients.some(({ lamports }) => lamports <= 0n)) {
+      throw new InvalidInputError("Amount must be greater than 0");
+    }
+    const total = recipients.reduce((sum, { lamports }) => sum + lamports, 0n);
+
+    this.logger.info(
+      `🔍 Preparing v0 transfer of ${formatBalance(total)} SOL to ${
+        recipients.length
+      } recipient(s)`
+    );
+    lookupTables.forEach((table) =>
+      this.logger.info(
+        `📇 Lookup table ${table.key.toBase58()} (${table.state.addresses.length} addresses)`
+      )
+    );
+
+    const senderAccountInfo =
+      await this.connection.getAccountInfo(fromPublicKey);
     if (
       senderAccountInfo &&
-      senderAccountInfo.owner.toBase58() !== "11111111111111111111111111111111"
+      !senderAccountInfo.owner.equals(SystemProgram.programId)
     ) {
-      throw new Error(
-        `❌ Invalid sender account. This account is owned by program ${senderAccountInfo.owner.toBase58()} and cannot be used to pay transaction fees. Make sure you're using a system account, not a token account or PDA.`
+      throw new NonSystemAccountError(
+        `❌ Invalid sender account. This account is owned by program ${senderAccountInfo.owner.toBase58()} and cannot be used to pay transaction fees. Make sure you're using a system account, not a token account or PDA.`,
+        senderAccountInfo.owner.toBase58()
+      );
+    }
+
+    const instructions = new Transaction().add(
+      ...recipients.map(({ to, lamports }) =>
+        SystemProgram.transfer({
+          fromPubkey: fromPublicKey,
+          toPubkey: to,
+          lamports,
+        })
+      )
+    );
+    if (computeBudget) {
+      addComputeBudgetInstructions(instructions, computeBudget);
+    }
+
+    let lastValidBlockHeight: number | undefined;
+    if (nonce) {
+      await this.useDurableNonce(instructions, nonce);
+    } else {
+      const latest = await this.connection.getLatestBlockhash();
+      instructions.recentBlockhash = latest.blockhash;
+      lastValidBlockHeight = latest.lastValidBlockHeight;
+    }
+    const message = new TransactionMessage({
+      payerKey: fromPublicKey,
+      recentBlockhash: instructions.recentBlockhash!,
+      instructions: instructions.instructions,
+    }).compileToV0Message(lookupTables);
+    const transaction = new VersionedTransaction(message);
+
+    const size = getSerializedSize(transaction);
+    if (size > PACKET_DATA_SIZE) {
+      throw new InvalidInputError(
+        `The transaction is ${
+          Number.isFinite(size) ? `${size} bytes` : "too large"
+        }, over the ${PACKET_DATA_SIZE} byte limit. Add the recipients to a lookup table or send to fewer at once.`
+      );
+    }
+
+    const { value: fee } = await this.connection.getFeeForMessage(
+      message,
+      this.getCommitment()
+    );
+    const required = total + BigInt(fee ?? 0);
+    const balance = BigInt(await this.connection.getBalance(fromPublicKey));
+    if (balance < required) {
+      throw new InsufficientFundsError(
+        `❌ Insufficient balance. You have ${formatBalance(
+          balance
+        )} SOL, but need ${formatBalance(required)} SOL (${formatBalance(
+          total
+        )} SOL + ${formatBalance(BigInt(fee ?? 0))} SOL fee)`,
+        balance,
+        required
       );
     }
 
+    return { transaction, lastValidBlockHeight };
+  }
+
+  /**
+   * Build exactly the transfer sendSOL would send and simulate it instead
+   */
+  async simulateTransfer(
+    fromPublicKey: PublicKey,
+    toPublicKey: PublicKey,
+    lamports: bigint,
+    nonce?: DurableNonceParams,
+    computeBudget?: ComputeBudgetSettings,
+    feePayer?: PublicKey
+  ): Promise<SimulationResult> {
+    const transaction = await this.buildTransfer(
+      fromPublicKey,
+      toPublicKey,
+      lamports,
+      nonce,
+      computeBudget,
+      feePayer
+    );
+
+    this.logger.info(`🧪 Simulating transaction...`);
+    return this.simulate(transaction);
+  }
+
+  /**
+   * Simulate a transaction without signatures and report logs, compute
+   * units, the exact fee and the balance change of every writable account
+   */
+  async simulate(
+    transaction: Transaction | VersionedTransaction,
+    lookupTables: AddressLookupTableAccount[] = []
+  ): Promise<SimulationResult> {
+    const message =
+      transaction instanceof Transaction
+        ? transaction.compileMessage()
+        : transaction.message;
+    const writable = message
+      .getAccountKeys({ addressLookupTableAccounts: lookupTables })
+      .keySegments()
+      .flat()
+      .filter((_, index) => message.isAccountWritable(index));
+
+    const [before, fee] = await Promise.all([
+      this.connection.getMultipleAccountsInfo(writable),
+      this.connection.getFeeForMessage(message, this.getCommitment()),
+    ]);
+    const { value } = await this.connection.simulateTransaction(
+      new VersionedTransaction(message),
+      {
+        sigVerify: false,
+        commitment: this.getCommitment(),
+        accounts: {
+          encoding: "base64",
+          addresses: writable.map((key) => key.toBase58()),
+        },
+      }
+    );
+
+    return {
+      logs: value.logs ?? [],
+      unitsConsumed: value.unitsConsumed,
+      fee: BigInt(fee.value ?? 0),
+      balanceChanges: writable.map((key, index) => ({
+        address: key.toBase58(),
+        before: BigInt(before[index]?.lamports ?? 0),
+        // Accounts are not returned when the simulation fails
+        after: BigInt(
+          value.accounts?.[index]?.lamports ?? before[index]?.lamports ?? 0
+        ),
+      })),
+      error: value.err
+        ? decodeTransactionError(value.err, {
+            programIds: getProgramIds(
+              getInstructions(transaction, lookupTables)
+            ),
+            logs: value.logs ?? [],
+          }).message
+        : undefined,
+    };
+  }
+
+  /**
+   * Validate and build an unsigned SOL transfer.
+   * Only the sender's public key is needed, so this can run on a machine
+   * that does not hold the private key. With a durable nonce the transaction
+   * does not expire after ~1 minute like a blockhash-based one.
+   * A compute budget adds a priority fee so the transfer lands under load.
+   * With a fee payer other than the sender, both must sign.
+   */
+  async buildTransfer(
+    fromPublicKey: PublicKey,
+    toPublicKey: PublicKey,
+    lamports: bigint,
+    nonce?: DurableNonceParams,
+    computeBudget?: ComputeBudgetSettings,
+    feePayer: PublicKey = fromPublicKey
+  ): Promise<Transaction> {
+    if (lamports <= 0n) {
+      throw new InvalidInputError("❌ Amount must be greater than 0");
+    }
+
+    this.hooks.onValidating?.({
+      from: fromPublicKey,
+      to: toPublicKey,
+      lamports,
+    });
+    this.logger.info(`🔍 Validating transaction...`);
+    this.logger.info(`📤 From: ${fromPublicKey.toBase58()}`);
+    this.logger.info(`📥 To: ${toPublicKey.toBase58()}`);
+    this.logger.info(`💰 Amount: ${formatBalance(lamports)} SOL`);
+    const sponsored = !feePayer.equals(fromPublicKey);
+    if (sponsored) {
+      this.logger.info(`⛽ Fee payer: ${feePayer.toBase58()}`);
+    }
+
+    // Validate that the sender and fee payer are valid system accounts
+    for (const [role, publicKey] of [
+      ["sender", fromPublicKey],
+      ["fee payer", feePayer],
+    ] as const) {
+      const accountInfo = await this.connection.getAccountInfo(publicKey);
+      if (
+        accountInfo &&
+        accountInfo.owner.toBase58() !== "11111111111111111111111111111111"
+      ) {
+        throw new NonSystemAccountError(
+          `❌ Invalid ${role} account. This account is owned by program ${accountInfo.owner.toBase58()} and cannot be used to pay transaction fees. Make sure you're using a system account, not a token account or PDA.`,
+          accountInfo.owner.toBase58()
+        );
+      }
+      if (!sponsored) break;
+    }
+
+    const recipient = await this.analyzeRecipient(toPublicKey, lamports);
+    if (recipient.blocked) {
+      throw new InvalidInputError(`❌ ${recipient.blocked}`);
+    }
+    recipient.warnings.forEach((warning) => this.logger.warn(`⚠️  ${warning}`));
+
     // Check if sender has sufficient balance
-    const senderBalance = await this.connection.getBalance(
-      fromKeypair.publicKey
+    const senderBalance = BigInt(
+      await this.connection.getBalance(fromPublicKey)
     );
-    console.log(`💰 Current balance: ${senderBalance / LAMPORTS_PER_SOL} SOL`);
+    this.logger.info(`💰 Current balance: ${formatBalance(senderBalance)} SOL`);
 
     // Estimate transaction fee first
     const estimatedFee = await this.estimateTransactionFee(
-      fromKeypair.publicKey,
+      fromPublicKey,
       toPublicKey,
-      amountSOL
+      lamports,
+      computeBudget,
+      feePayer
     );
-    console.log(`⚡ Estimated fee: ${estimatedFee} SOL`);
+    this.logger.info(`⚡ Estimated fee: ${formatBalance(estimatedFee)} SOL`);
+    if (computeBudget) {
+      this.logger.info(
+        `🚦 Priority fee: ${formatBalance(
+          getPriorityFeeLamports(computeBudget)
+        )} SOL (${computeBudget.microLamports} µlamports/CU × ${
+          computeBudget.computeUnitLimit
+        } CU)`
+      );
+    }
+
+    if (sponsored) {
+      const feePayerBalance = BigInt(
+        await this.connection.getBalance(feePayer)
+      );
+      if (feePayerBalance < estimatedFee) {
+        throw new InsufficientFundsError(
+          `❌ Insufficient fee payer balance. ${feePayer.toBase58()} has ${formatBalance(
+            feePayerBalance
+          )} SOL, but the fee is ${formatBalance(estimatedFee)} SOL`,
+          feePayerBalance,
+          estimatedFee
+        );
+      }
+    }
 
-    const totalRequired = lamports + estimatedFee * LAMPORTS_PER_SOL;
+    const totalRequired = sponsored ? lamports : lamports + estimatedFee;
     if (senderBalance < totalRequired) {
-      throw new Error(
-        `❌ Insufficient balance. You have ${
-          senderBalance / LAMPORTS_PER_SOL
-        } SOL, but need ${
-          totalRequired / LAMPORTS_PER_SOL
-        } SOL (${amountSOL} SOL + ${estimatedFee} SOL fee)`
+      throw new InsufficientFundsError(
+        `❌ Insufficient balance. You have ${formatBalance(
+          senderBalance
+        )} SOL, but need ${formatBalance(totalRequired)} SOL${
+          sponsored
+            ? ""
+            : ` (${formatBalance(lamports)} SOL + ${formatBalance(
+                estimatedFee
+              )} SOL fee)`
+        }`,
+        senderBalance,
+        totalRequired
       );
     }
 
     // Create transfer instruction
     const transferInstruction = SystemProgram.transfer({
-      fromPubkey: fromKeypair.publicKey,
+      fromPubkey: fromPublicKey,
       toPubkey: toPublicKey,
       lamports,
     });
 
     // Create transaction
     const transaction = new Transaction().add(transferInstruction);
+    transaction.feePayer = feePayer;
+    if (computeBudget) {
+      addComputeBudgetInstructions(transaction, computeBudget);
+    }
 
-    // Get recent blockhash
-    const { blockhash } = await this.connection.getLatestBlockhash();
-    transaction.recentBlockhash = blockhash;
-    transaction.feePayer = fromKeypair.publicKey;
+    if (nonce) {
+      await this.useDurableNonce(transaction, nonce);
+    } else {
+      // Get recent blockhash
+      const { blockhash, lastValidBlockHeight } =
+        await this.connection.getLatestBlockhash();
+      transaction.recentBlockhash = blockhash;
+      transaction.lastValidBlockHeight = lastValidBlockHeight;
+    }
 
-    console.log(`🚀 Sending transaction...`);
+    return transaction;
+  }
 
-    try {
-      // Send and confirm transaction
-      const signature = await sendAndConfirmTransaction(
-        this.connection,
-        transaction,
-        [fromKeypair],
-        {
-          commitment: "confirmed",
-          maxRetries: 3,
-        }
+  /**
+   * Classify the destination of a transfer. Transfers that cannot succeed or
+   * would lock the funds are blocked; risky ones carry warnings.
+   */
+  async analyzeRecipient(
+    toPublicKey: PublicKey,
+    lamports: bigint
+  ): Promise<RecipientAnalysis> {
+    const address = toPublicKey.toBase58();
+    const [accountInfo, rentExemptMinimum] = await Promise.all([
+      this.connection.getAccountInfo(toPublicKey),
+      this.connection.getMinimumBalanceForRentExemption(0),
+    ]);
+    const onCurve = PublicKey.isOnCurve(toPublicKey.toBytes());
+    const analysis: RecipientAnalysis = {
+      address,
+      kind: "wallet",
+      lamports: BigInt(accountInfo?.lamports ?? 0),
+      owner: accountInfo?.owner.toBase58(),
+      rentExemptMinimum: BigInt(rentExemptMinimum),
+      warnings: [],
+    };
+
+    if (!accountInfo) {
+      analysis.kind = onCurve ? "new-account" : "pda";
+      if (!onCurve) {
+        analysis.warnings.push(
+          `${address} is a program derived address (off-curve) with no account. No private key exists for it; only the program that derives it can move these funds.`
+        );
+      }
+      if (lamports < analysis.rentExemptMinimum) {
+        analysis.blocked = `${address} does not exist yet. Send at least ${formatBalance(
+          analysis.rentExemptMinimum
+        )} SOL (the rent-exempt minimum) to create it.`;
+      }
+      return analysis;
+    }
+
+    const { owner } = accountInfo;
+    if (accountInfo.executable) {
+      analysis.kind = "program";
+      analysis.blocked = `${address} is a program. SOL sent to a program account cannot be withdrawn.`;
+    } else if (owner.equals(SystemProgram.programId)) {
+      analysis.kind = onCurve ? "wallet" : "pda";
+      if (!onCurve) {
+        analysis.warnings.push(
+          `${address} is a program derived address (off-curve). No private key exists for it; only the program that derives it can move these funds.`
+        );
+      }
+    } else if (
+      owner.equals(TOKEN_PROGRAM_ID) ||
+      owner.equals(TOKEN_2022_PROGRAM_ID)
+    ) {
+      analysis.kind = "token-account";
+      try {
+        const tokenAccount = unpackAccount(toPublicKey, accountInfo, owner);
+        analysis.mint = tokenAccount.mint.toBase58();
+        analysis.tokenOwner = tokenAccount.owner.toBase58();
+        analysis.warnings.push(
+          `${address} is a token account of mint ${analysis.mint}. SOL sent to it does not reach its owner's wallet; send to ${analysis.tokenOwner} instead.`
+        );
+      } catch {
+        // Mints and multisigs are also owned by the token programs
+        analysis.kind = "program-owned";
+        analysis.warnings.push(
+          `${address} is a token program account, not a wallet. Only the token program can move SOL out of it.`
+        );
+      }
+    } else {
+      analysis.kind = onCurve ? "program-owned" : "pda";
+      analysis.warnings.push(
+        `${address} is owned by program ${owner.toBase58()}. Only that program can move SOL out of it.`
       );
+    }
 
-      return signature;
+    return analysis;
+  }
+
+  /**
+   * Replace the recent blockhash with the stored nonce and prepend the
+   * nonceAdvance instruction
+   */
+  private async useDurableNonce(
+    transaction: Transaction,
+    { nonceAccount, nonceAuthority }: DurableNonceParams
+  ): Promise<void> {
+    const minContextSlot = await this.connection.getSlot();
+    const info = await new NonceManager(this.connection).getNonceInfo(
+      nonceAccount
+    );
+    if (info.authority !== nonceAuthority.toBase58()) {
+      throw new InvalidInputError(
+        `${nonceAuthority.toBase58()} is not the authority of nonce account ${nonceAccount.toBase58()} (authority: ${info.authority})`
+      );
+    }
+
+    this.logger.info(`🔒 Using durable nonce ${info.nonce}`);
+
+    const nonceInstruction = SystemProgram.nonceAdvance({
+      noncePubkey: nonceAccount,
+      authorizedPubkey: nonceAuthority,
+    });
+
+    // nonceAdvance must be the first instruction; adding it explicitly also
+    // makes it visible in transaction summaries
+    transaction.instructions.unshift(nonceInstruction);
+    transaction.recentBlockhash = info.nonce;
+    transaction.nonceInfo = { nonce: info.nonce, nonceInstruction };
+    // Lets sendAndConfirmTransaction confirm using the nonce strategy
+    transaction.minNonceContextSlot = minContextSlot;
+  }
+
+  /**
+   * Broadcast a fully signed transaction and track it to a final status
+   */
+  async sendSignedTransaction(
+    transaction: Transaction
+  ): Promise<TransactionDetails> {
+    if (!transaction.verifySignatures()) {
+      throw new InvalidInputError(
+        "Transaction is missing signatures or has invalid signatures"
+      );
+    }
+
+    this.logger.info(`🚀 Broadcasting transaction...`);
+    return this.broadcast(toOutgoing(transaction));
+  }
+
+  /**
+   * Broadcast a v0 transaction that was signed elsewhere. The lookup tables
+   * it uses let failures be attributed to the right program.
+   */
+  async sendSignedVersionedTransaction(
+    transaction: VersionedTransaction,
+    lookupTables: AddressLookupTableAccount[] = []
+  ): Promise<TransactionDetails> {
+    if (
+      transaction.signatures.some((signature) =>
+        signature.every((byte) => byte === 0)
+      )
+    ) {
+      throw new InvalidInputError("Transaction is missing signatures");
+    }
+
+    this.logger.info(`🚀 Broadcasting transaction...`);
+    return this.broadcast(toOutgoing(transaction, lookupTables));
+  }
+
+  /**
+   * Rebroadcast the same signed transaction until it reaches the connection's
+   * commitment, fails, or can provably no longer land because its blockhash
+   * expired or its durable nonce was advanced
+   */
+  private async broadcast(
+    transaction: OutgoingTransaction
+  ): Promise<TransactionDetails> {
+    const { signature, rawTransaction } = transaction;
+    const fee = await this.connection.getFeeForMessage(
+      transaction.message,
+      this.getCommitment()
+    );
+    const details: TransactionDetails = {
+      signature,
+      ...summarizeTransfer(transaction),
+      fee: BigInt(fee.value ?? 0),
+      status: "pending",
+    };
+
+    // Preflight runs as a separate simulation so a rejection comes back as
+    // a structured error that can be decoded
+    await this.preflight(transaction);
+
+    try {
+      await this.connection.sendRawTransaction(rawTransaction, {
+        skipPreflight: true,
+        maxRetries: 0,
+      });
     } catch (error) {
-      if (error instanceof SendTransactionError) {
-        const logs = await error.getLogs(this.connection);
-        console.error(`❌ Transaction failed with logs:`, logs);
-        throw new Error(
-          `Transaction failed: ${error.message}\nLogs: ${
-            logs?.join("\n") || "No logs available"
-          }`
+      throw await this.describeSendError(error);
+    }
+    this.logger.info(`📡 Sent ${signature}`);
+    this.hooks.onSent?.(signature);
+
+    const result = await this.waitForFinalStatus(transaction, details);
+    if (result.status === "confirmed") {
+      this.hooks.onConfirmed?.(result);
+    } else if (result.status === "failed") {
+      this.hooks.onFailed?.(result);
+    }
+    return result;
+  }
+
+  /**
+   * Simulate a signed transaction and throw a typed error if it would fail
+   */
+  private async preflight(transaction: OutgoingTransaction): Promise<void> {
+    const { value } = await this.connection.simulateTransaction(
+      VersionedTransaction.deserialize(transaction.rawTransaction),
+      { sigVerify: true, commitment: this.getCommitment() }
+    );
+    if (value.err) {
+      const logs = value.logs ?? [];
+      if (logs.length > 0) {
+        this.logger.error(
+          `❌ Transaction failed with logs:\n${logs.join("\n")}`
+        );
+      }
+      throw decodeTransactionError(value.err, {
+        programIds: getProgramIds(transaction.instructions),
+        logs,
+      });
+    }
+  }
+
+  private async waitForFinalStatus(
+    transaction: OutgoingTransaction,
+    details: TransactionDetails
+  ): Promise<TransactionDetails> {
+    const { signature, rawTransaction } = transaction;
+
+    const target = this.getCommitment();
+    const startedAt = Date.now();
+    let lastStatus: TransactionConfirmationStatus | undefined;
+
+    while (Date.now() - startedAt < MAX_TRACKING_MS) {
+      await sleep(REBROADCAST_INTERVAL_MS);
+
+      try {
+        const { value } = await this.connection.getSignatureStatuses([
+          signature,
+        ]);
+        const status = value[0];
+
+        if (status?.err) {
+          return failedOnChain(details, transaction, status.err, status.slot);
+        }
+        if (
+          status?.confirmationStatus &&
+          status.confirmationStatus !== lastStatus
+        ) {
+          lastStatus = status.confirmationStatus;
+          this.logger.info(`⏳ ${lastStatus} in slot ${status.slot}`);
+          this.hooks.onStatusChange?.(lastStatus, status.slot);
+        }
+        if (hasReached(status?.confirmationStatus, target)) {
+          return { ...details, status: "confirmed", slot: status!.slot };
+        }
+
+        if (await this.isExpired(transaction)) {
+          return this.resolveExpired(transaction, details);
+        }
+
+        if (!status) {
+          await this.connection.sendRawTransaction(rawTransaction, {
+            skipPreflight: true,
+            maxRetries: 0,
+          });
+        }
+      } catch (error) {
+        // Keep trying: the transaction may still land while the RPC recovers
+        this.logger.warn(
+          `⚠️  ${error instanceof Error ? error.message : "Unknown error"}`
         );
       }
-      throw error;
     }
+
+    return {
+      ...details,
+      error:
+        "Could not determine the final status. Check the signature before sending again.",
+    };
+  }
+
+  /**
+   * Whether the transaction can no longer be processed
+   */
+  private async isExpired(transaction: OutgoingTransaction): Promise<boolean> {
+    const nonceAccount = getNonceAccount(transaction.instructions);
+    if (nonceAccount) {
+      const info = await new NonceManager(this.connection).getNonceInfo(
+        nonceAccount
+      );
+      return info.nonce !== transaction.recentBlockhash;
+    }
+
+    if (transaction.lastValidBlockHeight !== undefined) {
+      const blockHeight = await this.connection.getBlockHeight(
+        this.getCommitment()
+      );
+      return blockHeight > transaction.lastValidBlockHeight;
+    }
+
+    // Transactions built elsewhere do not carry lastValidBlockHeight
+    const { value } = await this.connection.isBlockhashValid(
+      transaction.recentBlockhash,
+      { commitment: this.getCommitment() }
+    );
+    return !value;
+  }
+
+  /**
+   * Final lookup once the transaction can no longer land
+   */
+  private async resolveExpired(
+    transaction: OutgoingTransaction,
+    details: TransactionDetails
+  ): Promise<TransactionDetails> {
+    const { value } = await this.connection.getSignatureStatuses(
+      [details.signature],
+      { searchTransactionHistory: true }
+    );
+    const status = value[0];
+
+    if (status?.err) {
+      return failedOnChain(details, transaction, status.err, status.slot);
+    }
+    if (status) {
+      // It landed after all; report it even if it is only processed so far
+      return { ...details, status: "confirmed", slot: status.slot };
+    }
+    return {
+      ...details,
+      status: "failed",
+      error:
+        "Transaction expired before it was processed. No funds were moved, it is safe to send again.",
+      errorType: "blockhash-expired",
+    };
   }
 
   /**
@@ -119,7 +859,7 @@ export class TransferManager {
   async getTransactionDetails(signature: string) {
     try {
       const transaction = await this.connection.getTransaction(signature, {
-        commitment: "confirmed",
+        commitment: this.getFinality(),
         maxSupportedTransactionVersion: 0,
       });
       return transaction;
@@ -133,15 +873,16 @@ export class TransferManager {
   }
 
   /**
-   * Estimate transaction fee
+   * Estimate the transaction fee in lamports, including the priority fee
+   * of a compute budget
    */
   async estimateTransactionFee(
     fromPublicKey: PublicKey,
     toPublicKey: PublicKey,
-    amountSOL: number
-  ): Promise<number> {
-    const lamports = amountSOL * LAMPORTS_PER_SOL;
-
+    lamports: bigint,
+    computeBudget?: ComputeBudgetSettings,
+    feePayer: PublicKey = fromPublicKey
+  ): Promise<bigint> {
     const transferInstruction = SystemProgram.transfer({
       fromPubkey: fromPublicKey,
       toPubkey: toPublicKey,
@@ -151,14 +892,18 @@ export class TransferManager {
     const transaction = new Transaction().add(transferInstruction);
     const { blockhash } = await this.connection.getLatestBlockhash();
     transaction.recentBlockhash = blockhash;
-    transaction.feePayer = fromPublicKey;
+    // A separate fee payer adds a second signature to pay for
+    transaction.feePayer = feePayer;
 
     const fee = await this.connection.getFeeForMessage(
       transaction.compileMessage(),
-      "confirmed"
+      this.getCommitment()
     );
 
-    return fee.value ? fee.value / LAMPORTS_PER_SOL : 0;
+    // The priority fee is added separately so the base fee does not depend
+    // on whether the RPC node already includes it
+    const baseFee = BigInt(fee.value ?? 0);
+    return baseFee + getPriorityFeeLamports(computeBudget);
   }
 
   /**
@@ -172,4 +917,212 @@ export class TransferManager {
       return false;
     }
   }
+
+  /**
+   * Attach program logs to failed sends
+   */
+  private async describeSendError(error: unknown): Promise<unknown> {
+    if (error instanceof SendTransactionError) {
+      const logs = await error.getLogs(this.connection);
+      this.logger.error(
+        `❌ Transaction failed with logs:\n${logs?.join("\n") ?? "none"}`
+      );
+      return new TransactionFailedError(
+        `Transaction failed: ${error.message}\nLogs: ${
+          logs?.join("\n") || "No logs available"
+        }`,
+        { logs }
+      );
+    }
+    return error;
+  }
+
+  /**
+   * Commitment level configured on the connection
+   */
+  private getCommitment(): Commitment {
+    return this.connection.commitment ?? "confirmed";
+  }
+
+  /**
+   * Finality for lookups, which do not support "processed"
+   */
+  private getFinality(): Finality {
+    return this.getCommitment() === "finalized" ? "finalized" : "confirmed";
+  }
+}
+
+/**
+ * Refuse a transfer to a blocked recipient, and to one with warnings unless
+ * the caller accepts them
+ */
+export function assertRecipientAllowed(
+  analysis: RecipientAnalysis,
+  acceptWarnings: boolean = false
+): void {
+  if (analysis.blocked) {
+    throw new InvalidInputError(analysis.blocked);
+  }
+  if (analysis.warnings.length > 0 && !acceptWarnings) {
+    throw new InvalidInputError(
+      `The recipient check raised ${analysis.warnings.length} warning(s); review them before sending anyway`
+    );
+  }
+}
+
+function hasReached(
+  status: TransactionConfirmationStatus | undefined,
+  target: Commitment
+): boolean {
+  if (!status) return false;
+  const targetIndex = CONFIRMATION_LEVELS.indexOf(
+    target as TransactionConfirmationStatus
+  );
+  return CONFIRMATION_LEVELS.indexOf(status) >= Math.max(targetIndex, 0);
+}
+
+/**
+ * The nonce account of a durable nonce transaction, if it is one
+ */
+function getNonceAccount(
+  instructions: TransactionInstruction[]
+): PublicKey | undefined {
+  const [first] = instructions;
+  if (!first || !first.programId.equals(SystemProgram.programId)) {
+    return undefined;
+  }
+  try {
+    if (
+      SystemInstruction.decodeInstructionType(first) !== "AdvanceNonceAccount"
+    ) {
+      return undefined;
+    }
+    return SystemInstruction.decodeNonceAdvance(first).noncePubkey;
+  } catch {
+    return undefined;
+  }
+}
+
+function getProgramIds(instructions: TransactionInstruction[]): PublicKey[] {
+  return instructions.map((instruction) => instruction.programId);
+}
+
+/**
+ * Details of a transaction that landed but failed, with the decoded error
+ */
+function failedOnChain(
+  details: TransactionDetails,
+  transaction: OutgoingTransaction,
+  err: TransactionError,
+  slot: number
+): TransactionDetails {
+  const error = decodeTransactionError(err, {
+    programIds: getProgramIds(transaction.instructions),
+  });
+  return {
+    ...details,
+    status: "failed",
+    slot,
+    error: error.message,
+    errorType: error.type,
+  };
+}
+
+/**
+ * Sender, recipient and amount of the system transfers in a transaction
+ */
+function summarizeTransfer(
+  transaction: OutgoingTransaction
+): Pick<TransactionDetails, "from" | "to" | "amount"> {
+  const summary = {
+    from: transaction.feePayer.toBase58(),
+    to: "",
+    amount: 0n,
+  };
+
+  transaction.instructions
+    .filter((instruction) =>
+      instruction.programId.equals(SystemProgram.programId)
+    )
+    .forEach((instruction) => {
+      try {
+        if (
+          SystemInstruction.decodeInstructionType(instruction) !== "Transfer"
+        ) {
+          return;
+        }
+        const { fromPubkey, toPubkey, lamports } =
+          SystemInstruction.decodeTransfer(instruction);
+        summary.from = fromPubkey.toBase58();
+        summary.to = toPubkey.toBase58();
+        summary.amount += lamports;
+      } catch {
+        // Not a decodable system instruction
+      }
+    });
+
+  return summary;
+}
+
+/**
+ * Serialized size of a transaction, or Infinity if it does not even fit
+ * the serialization buffer
+ */
+function getSerializedSize(transaction: VersionedTransaction): number {
+  try {
+    return transaction.serialize().length;
+  } catch {
+    return Infinity;
+  }
+}
+
+/**
+ * A signed legacy or v0 transaction, reduced to what sending and tracking
+ * it needs. Instructions of a v0 transaction are resolved through its
+ * lookup tables.
+ */
+function toOutgoing(
+  transaction: Transaction | VersionedTransaction,
+  lookupTables: AddressLookupTableAccount[] = [],
+  lastValidBlockHeight?: number
+): OutgoingTransaction {
+  if (transaction instanceof Transaction) {
+    return {
+      rawTransaction: transaction.serialize(),
+      signature: bs58.encode(transaction.signature!),
+      message: transaction.compileMessage(),
+      instructions: transaction.instructions,
+      feePayer: transaction.feePayer!,
+      recentBlockhash: transaction.recentBlockhash!,
+      lastValidBlockHeight:
+        lastValidBlockHeight ?? transaction.lastValidBlockHeight,
+    };
+  }
+
+  const { message } = transaction;
+  return {
+    rawTransaction: Buffer.from(transaction.serialize()),
+    signature: bs58.encode(transaction.signatures[0]),
+    message,
+    instructions: getInstructions(transaction, lookupTables),
+    feePayer: message.staticAccountKeys[0],
+    recentBlockhash: message.recentBlockhash,
+    lastValidBlockHeight,
+  };
+}
+
+/**
+ * Instructions of a legacy or v0 transaction, with the accounts of a v0
+ * transaction resolved through its lookup tables
+ */
+function getInstructions(
+  transaction: Transaction | VersionedTransaction,
+  lookupTables: AddressLookupTableAccount[] = []
+): TransactionInstruction[] {
+  if (transaction instanceof Transaction) {
+    return transaction.instructions;
+  }
+  return TransactionMessage.decompile(transaction.message, {
+    addressLookupTableAccounts: lookupTables,
+  }).instructions;
 }
@@ -0,0 +1,320 @@
+import {
+  Commitment,
+  Connection,
+  Finality,
+  PublicKey,
+  TransactionError,
+} from "@solana/web3.js";
+import { TransactionDetails, WatchEvent, WatcherOptions } from "../types";
+import { sleep } from "../utils/helpers";
+import { Logger, silentLogger } from "../utils/logger";
+import { parseTransaction } from "./history";
+
+// Slot notifications arrive several times a second; this much silence means
+// the websocket is gone even if it was never closed cleanly
+const HEARTBEAT_TIMEOUT_MS = 30_000;
+const HEALTH_CHECK_INTERVAL_MS = 5_000;
+// A transaction announced by logsSubscribe can take a moment to be readable
+// through getTransaction
+const FETCH_ATTEMPTS = 5;
+const FETCH_RETRY_MS = 1_000;
+// Signatures missed while disconnected are fetched in one page
+const CATCH_UP_LIMIT = 100;
+const MAX_SEEN_SIGNATURES = 1_000;
+
+export class AccountWatcher {
+  private connection: Connection;
+  private logger: Logger;
+  private wsEndpoint?: string;
+  // Separate connection holding the subscriptions, replaced on reconnect
+  private subscriptions: Connection | null = null;
+  private unsubscribers: (() => Promise<void>)[] = [];
+  private addresses: PublicKey[] = [];
+  private onEvent: (event: WatchEvent) => void = () => {};
+  private balances = new Map<string, bigint>();
+  // Newest signature seen per address, the catch-up point after a reconnect
+  private lastSignatures = new Map<string, string>();
+  private seen = new Set<string>();
+  private lastHeartbeat = 0;
+  private healthCheck?: NodeJS.Timeout;
+  private reconnecting = false;
+
+  constructor(connection: Connection, options: WatcherOptions = {}) {
+    this.connection = connection;
+    this.logger = options.logger ?? silentLogger;
+    this.wsEndpoint = options.wsEndpoint;
+  }
+
+  /**
+   * Subscribe to balance changes and transactions of the given addresses.
+   * Events are delivered until stop() is called; a silent or dropped
+   * websocket is replaced and missed activity is caught up.
+   */
+  async start(
+    addresses: PublicKey[],
+    onEvent: (event: WatchEvent) => void
+  ): Promise<void> {
+    await this.stop();
+    this.addresses = addresses;
+    this.onEvent = onEvent;
+    this.balances.clear();
+    this.lastSignatures.clear();
+    this.seen.clear();
+
+    for (const address of addresses) {
+      const key = address.toBase58();
+      const [balance, [latest]] = await Promise.all([
+        this.connection.getBalance(address, this.getCommitment()),
+        this.connection.getSignaturesForAddress(
+          address,
+          { limit: 1 },
+          this.getFinality()
+        ),
+      ]);
+      this.balances.set(key, BigInt(balance));
+      if (latest) {
+        this.lastSignatures.set(key, latest.signature);
+      }
+    }
+
+    this.subscribe();
+    this.healthCheck = setInterval(
+      () => void this.checkHealth(),
+      HEALTH_CHECK_INTERVAL_MS
+    );
+  }
+
+  /**
+   * Remove all subscriptions and stop reconnecting
+   */
+  async stop(): Promise<void> {
+    if (this.healthCheck) {
+      clearInterval(this.healthCheck);
+      this.healthCheck = undefined;
+    }
+    await this.unsubscribe();
+  }
+
+  /**
+   * Last known balance of a watched address in lamports
+   */
+  getBalance(address: PublicKey): bigint | undefined {
+    return this.balances.get(address.toBase58());
+  }
+
+  private subscribe(): void {
+    const connection = new Connection(this.connection.rpcEndpoint, {
+      commitment: this.getCommitment(),
+      wsEndpoint: this.wsEndpoint,
+    });
+    this.subscriptions = connection;
+    this.lastHeartbeat = Date.now();
+
+    const slotId = connection.onSlotChange(() => {
+      this.lastHeartbeat = Date.now();
+    });
+    this.unsubscribers.push(() => connection.removeSlotChangeListener(slotId));
+
+    for (const address of this.addresses) {
+      const accountId = connection.onAccountChange(
+        address,
+        (account, context) =>
+          this.handleBalance(address, BigInt(account.lamports), context.slot),
+        { commitment: this.getCommitment() }
+      );
+      const logsId = connection.onLogs(
+        address,
+        (logs, context) =>
+          void this.handleSignature(
+            address,
+            logs.signature,
+            context.slot,
+            logs.err
+          ),
+        this.getFinality()
+      );
+      this.unsubscribers.push(
+        () => connection.removeAccountChangeListener(accountId),
+        () => connection.removeOnLogsListener(logsId)
+      );
+    }
+  }
+
+  private async unsubscribe(): Promise<void> {
+    const unsubscribers = this.unsubscribers;
+    this.unsubscribers = [];
+    this.subscriptions = null;
+    // A dead socket cannot acknowledge the removal, which is fine
+    await Promise.allSettled(unsubscribers.map((remove) => remove()));
+  }
+
+  private async checkHealth(): Promise<void> {
+    if (
+      this.reconnecting ||
+      !this.subscriptions ||
+      Date.now() - this.lastHeartbeat < HEARTBEAT_TIMEOUT_MS
+    ) {
+      return;
+    }
+
+    this.reconnecting = true;
+    try {
+      this.logger.warn(
+        `⚠️  No websocket updates for ${
+          HEARTBEAT_TIMEOUT_MS / 1000
+        }s, reconnecting...`
+      );
+      await this.unsubscribe();
+      this.subscribe();
+      await this.catchUp();
+      this.logger.info("🔌 Reconnected");
+    } catch (error) {
+      // The next health check tries again
+      this.logger.warn(
+        `⚠️  Reconnect failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    } finally {
+      this.reconnecting = false;
+    }
+  }
+
+  /**
+   * Deliver balance changes and transactions that happened while the
+   * websocket was down
+   */
+  private async catchUp(): Promise<void> {
+    for (const address of this.addresses) {
+      const { context, value } = await this.connection.getBalanceAndContext(
+        address,
+        this.getCommitment()
+      );
+      this.handleBalance(address, BigInt(value), context.slot);
+
+      const missed = await this.connection.getSignaturesForAddress(
+        address,
+        {
+          until: this.lastSignatures.get(address.toBase58()),
+          limit: CATCH_UP_LIMIT,
+        },
+        this.getFinality()
+      );
+      // Oldest first, the order they happened in
+      for (const info of missed.reverse()) {
+        await this.handleSignature(
+          address,
+          info.signature,
+          info.slot,
+          info.err
+        );
+      }
+    }
+  }
+
+  private handleBalance(address: PublicKey, lamports: bigint, slot: number) {
+    const key = address.toBase58();
+    const previousLamports = this.balances.get(key) ?? 0n;
+    if (lamports === previousLamports) {
+      return;
+    }
+
+    this.balances.set(key, lamports);
+    this.emit({
+      type: "balance",
+      address: key,
+      slot,
+      previousLamports,
+      lamports,
+      delta: lamports - previousLamports,
+    });
+  }
+
+  private async handleSignature(
+    address: PublicKey,
+    signature: string,
+    slot: number,
+    err: TransactionError | {} | null
+  ): Promise<void> {
+    const key = `${address.toBase58()}:${signature}`;
+    if (this.seen.has(key)) {
+      return;
+    }
+    this.seen.add(key);
+    if (this.seen.size > MAX_SEEN_SIGNATURES) {
+      // Sets iterate in insertion order, so this drops the oldest
+      this.seen.delete(this.seen.values().next().value!);
+    }
+    this.lastSignatures.set(address.toBase58(), signature);
+
+    try {
+      this.emit({
+        type: "transaction",
+        address: address.toBase58(),
+        slot,
+        transaction: await this.getDetails(address, signature, slot, err),
+      });
+    } catch (error) {
+      this.logger.warn(
+        `⚠️  Could not load transaction ${signature}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  private async getDetails(
+    address: PublicKey,
+    signature: string,
+    slot: number,
+    err: TransactionError | {} | null
+  ): Promise<TransactionDetails> {
+    for (let attempt = 1; attempt <= FETCH_ATTEMPTS; attempt++) {
+      const transaction = await this.connection.getTransaction(signature, {
+        commitment: this.getFinality(),
+        maxSupportedTransactionVersion: 0,
+      });
+      if (transaction?.meta) {
+        return parseTransaction(signature, transaction, address);
+      }
+      if (attempt < FETCH_ATTEMPTS) {
+        await sleep(FETCH_RETRY_MS);
+      }
+    }
+
+    // Still not readable; report what the notification told us
+    return {
+      signature,
+      from: "",
+      to: "",
+      amount: 0n,
+      fee: 0n,
+      status: err ? "failed" : "confirmed",
+      slot,
+      error: err ? JSON.stringify(err) : undefined,
+    };
+  }
+
+  private emit(event: WatchEvent): void {
+    try {
+      this.onEvent(event);
+    } catch (error) {
+      this.logger.warn(
+        `⚠️  Event handler failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  private getCommitment(): Commitment {
+    return this.connection.commitment ?? "confirmed";
+  }
+
+  // Logs and transactions are only available from confirmed onwards
+  private getFinality(): Finality {
+    return this.connection.commitment === "finalized"
+      ? "finalized"
+      : "confirmed";
+  }
+}
@@ -1,25 +1,57 @@
-import { PublicKey, Keypair } from "@solana/web3.js";
+import {
+  Commitment,
+  PublicKey,
+  Keypair,
+  TransactionConfirmationStatus,
+} from "@solana/web3.js";
+import { WalletErrorType } from "../utils/errors";
+import { Logger } from "../utils/logger";
 
 export interface WalletInfo {
   publicKey: string;
   balance: number;
 }
 
+export type TransactionDirection = "incoming" | "outgoing" | "none";
+
 export interface TransactionDetails {
   signature: string;
   from: string;
   to: string;
-  amount: number;
-  fee: number;
+  // Amounts in lamports
+  amount: bigint;
+  fee: bigint;
   timestamp?: number;
   status: "pending" | "confirmed" | "failed";
+  direction?: TransactionDirection;
+  counterparty?: string;
+  slot?: number;
+  error?: string;
+  errorType?: WalletErrorType;
+}
+
+export interface HistoryOptions {
+  before?: string;
+  until?: string;
+  limit?: number;
+  direction?: TransactionDirection;
+  status?: "confirmed" | "failed";
+}
+
+export interface HistoryPage {
+  transactions: TransactionDetails[];
+  // Pass as `before` to fetch the next page
+  nextBefore?: string;
 }
 
 export interface CLIOptions {
   privateKey?: string;
+  wallet?: string;
   to?: string;
   amount?: string;
-  cluster?: "devnet" | "testnet" | "mainnet-beta";
+  cluster?: ClusterType;
+  url?: string;
+  commitment?: Commitment;
 }
 
 export interface TransferParams {
@@ -28,16 +60,337 @@ export interface TransferParams {
   amountSOL: number;
 }
 
-export type ClusterType = "devnet" | "testnet" | "mainnet-beta";
+export type ClusterType = "devnet" | "testnet" | "mainnet-beta" | "localnet";
 
 export interface NetworkInfo {
   cluster: ClusterType;
   url: string;
   explorerBaseUrl: string;
+  commitment: Commitment;
+}
+
+export interface AirdropResult {
+  signature: string;
+  // Lamports received and the balance afterwards
+  lamports: bigint;
+  balance: bigint;
 }
 
 export interface WalletBalance {
-  sol: number;
-  lamports: number;
+  lamports: bigint;
+  // Exact decimal SOL amount
+  sol: string;
   formatted: string;
 }
+
+export interface TokenHolding {
+  address: string;
+  mint: string;
+  programId: string;
+  program: "token" | "token-2022";
+  amount: bigint;
+  uiAmount: string;
+  decimals: number;
+  isFrozen: boolean;
+  delegate?: string;
+  delegatedAmount?: bigint;
+  isAssociated: boolean;
+}
+
+export interface WalletPortfolio extends WalletBalance {
+  owner: string;
+  tokens: TokenHolding[];
+}
+
+export interface KeystoreCrypto {
+  kdf: "scrypt";
+  kdfparams: {
+    n: number;
+    r: number;
+    p: number;
+    dklen: number;
+    salt: string;
+  };
+  cipher: "aes-256-gcm";
+  iv: string;
+  authTag: string;
+  ciphertext: string;
+}
+
+export interface KeystoreEntry {
+  name: string;
+  publicKey: string;
+  createdAt: string;
+  crypto: KeystoreCrypto;
+}
+
+export interface KeystoreFile {
+  version: 1;
+  selected?: string;
+  wallets: KeystoreEntry[];
+}
+
+export interface Contact {
+  label: string;
+  address: string;
+  note?: string;
+  // Only offered on this cluster; contacts without one apply everywhere
+  cluster?: ClusterType;
+  createdAt: string;
+}
+
+export interface AddressBookFile {
+  version: 1;
+  contacts: Contact[];
+}
+
+export interface VanityOptions {
+  prefix?: string;
+  suffix?: string;
+  ignoreCase?: boolean;
+  // Worker threads to search with; defaults to one per CPU core
+  threads?: number;
+  onProgress?: (progress: VanityProgress) => void;
+}
+
+export interface VanityProgress {
+  attempts: number;
+  // Keypairs tried per second across all threads
+  rate: number;
+  elapsedMs: number;
+  // Average number of keypairs needed to find a match
+  expectedAttempts: number;
+}
+
+export interface VanityResult {
+  keypair: Keypair;
+  attempts: number;
+  elapsedMs: number;
+}
+
+export interface TransferRecipient {
+  to: PublicKey;
+  lamports: bigint;
+}
+
+export interface LookupTableInfo {
+  address: string;
+  // Unset once the table is frozen
+  authority?: string;
+  addresses: string[];
+  active: boolean;
+  deactivationSlot?: number;
+  lastExtendedSlot: number;
+}
+
+export interface TokenTransferPlan {
+  mint: PublicKey;
+  programId: PublicKey;
+  decimals: number;
+  amount: bigint;
+  sourceTokenAccount: PublicKey;
+  sourceBalance: bigint;
+  recipient: PublicKey;
+  destinationTokenAccount: PublicKey;
+  createsDestinationAccount: boolean;
+  rentLamports: number;
+}
+
+export interface NonceAccountInfo {
+  address: string;
+  authority: string;
+  nonce: string;
+  lamports: bigint;
+  lamportsPerSignature: number;
+}
+
+export interface DurableNonceParams {
+  nonceAccount: PublicKey;
+  nonceAuthority: PublicKey;
+}
+
+export type StakeState =
+  "initialized" | "activating" | "active" | "deactivating" | "inactive";
+
+export interface StakeAccountInfo {
+  address: string;
+  // Amounts in lamports
+  lamports: bigint;
+  rentExemptReserve: bigint;
+  staker: string;
+  withdrawer: string;
+  state: StakeState;
+  // Delegated accounts only
+  voter?: string;
+  delegatedStake?: bigint;
+  activationEpoch?: number;
+  deactivationEpoch?: number;
+  // Set while a lockup prevents withdrawals
+  lockup?: { epoch: number; unixTimestamp: number; custodian: string };
+  // Lamports that can be withdrawn right now
+  withdrawable: bigint;
+}
+
+export interface ValidatorSummary {
+  votePubkey: string;
+  nodePubkey: string;
+  // Percentage of rewards kept by the validator
+  commission: number;
+  activatedStake: bigint;
+  lastVote: number;
+  delinquent: boolean;
+}
+
+export interface EpochProgress {
+  epoch: number;
+  slotIndex: number;
+  slotsInEpoch: number;
+  // Rough time until the next epoch, assuming 400ms slots
+  secondsRemaining: number;
+}
+
+export interface PriorityFeeOptions {
+  // Price per compute unit in micro-lamports, or "auto" to use recent fees
+  priorityFee?: number | "auto";
+  computeUnitLimit?: number;
+}
+
+export interface ComputeBudgetSettings {
+  microLamports: number;
+  computeUnitLimit: number;
+}
+
+export interface PriorityFeeLevels {
+  low: number;
+  medium: number;
+  high: number;
+  veryHigh: number;
+}
+
+export interface ManagerOptions {
+  // Progress messages; silent unless a logger is given
+  logger?: Logger;
+}
+
+export interface TransferHooks {
+  onValidating?: (transfer: {
+    from: PublicKey;
+    to: PublicKey;
+    lamports: bigint;
+  }) => void;
+  onSent?: (signature: string) => void;
+  onStatusChange?: (
+    status: TransactionConfirmationStatus,
+    slot: number
+  ) => void;
+  onConfirmed?: (details: TransactionDetails) => void;
+  onFailed?: (details: TransactionDetails) => void;
+}
+
+export interface TransferManagerOptions extends ManagerOptions {
+  hooks?: TransferHooks;
+}
+
+export type RecipientKind =
+  | "wallet"
+  | "new-account"
+  | "token-account"
+  | "program"
+  | "pda"
+  | "program-owned";
+
+export interface RecipientAnalysis {
+  address: string;
+  kind: RecipientKind;
+  // Current balance in lamports (0 for a new account)
+  lamports: bigint;
+  owner?: string;
+  // Token accounts only
+  mint?: string;
+  tokenOwner?: string;
+  // Lamports a new account needs to be created
+  rentExemptMinimum: bigint;
+  // Risks the sender should confirm before sending
+  warnings: string[];
+  // Why the transfer is refused, if it is
+  blocked?: string;
+}
+
+export interface WatcherOptions extends ManagerOptions {
+  // Websocket endpoint; derived from the RPC URL by default
+  wsEndpoint?: string;
+}
+
+export type WatchEvent =
+  | {
+      type: "balance";
+      address: string;
+      slot: number;
+      // Lamports before and after, and the difference
+      previousLamports: bigint;
+      lamports: bigint;
+      delta: bigint;
+    }
+  | {
+      type: "transaction";
+      address: string;
+      slot: number;
+      transaction: TransactionDetails;
+    };
+
+export interface BalanceChange {
+  address: string;
+  // Lamports before and after the transaction
+  before: bigint;
+  after: bigint;
+}
+
+export interface SimulationResult {
+  logs: string[];
+  unitsConsumed?: number;
+  fee: bigint;
+  balanceChanges: BalanceChange[];
+  error?: string;
+}
+
+export interface PayoutRow {
+  line: number;
+  address: string;
+  amount: string;
+  lamports: bigint;
+  label?: string;
+}
+
+export type PayoutBatchStatus = "pending" | "sent" | "confirmed" | "failed";
+
+export interface PayoutBatch {
+  index: number;
+  rows: number[];
+  status: PayoutBatchStatus;
+  signature?: string;
+  blockhash?: string;
+  lastValidBlockHeight?: number;
+  error?: string;
+}
+
+export interface PayoutJournal {
+  version: 1;
+  csvHash: string;
+  sender: string;
+  cluster: ClusterType;
+  createdAt: string;
+  // Lookup tables the batches were packed with (v0 transactions)
+  lookupTables?: string[];
+  batches: PayoutBatch[];
+}
+
+export interface PayoutSummary {
+  confirmed: number;
+  failed: number;
+  // Sent or pending: may still land, resolved by the next run
+  unresolved: number;
+  // Failed without being processed, sent again by the next run
+  retryable: number;
+  // Failed on chain, never sent again
+  failedOnChain: number;
+}
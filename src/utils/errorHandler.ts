@@ -2,16 +2,53 @@
  * Enhanced error handling and troubleshooting utilities
  */
 
+import { ClusterType } from "../types";
+import { WalletErrorType } from "./errors";
+import { getFundingHint } from "./helpers";
+import { Logger, consoleLogger } from "./logger";
+
 export interface ErrorSolution {
-  error: string;
+  title: string;
   description: string;
   solutions: string[];
   links?: string[];
 }
 
-export const COMMON_ERRORS: ErrorSolution[] = [
-  {
-    error: "This account may not be used to pay transaction fees",
+/**
+ * Troubleshooting advice for each error type on a given cluster
+ */
+const ERROR_HELP: Partial<
+  Record<WalletErrorType, (cluster: ClusterType) => ErrorSolution>
+> = {
+  "invalid-key": () => ({
+    title: "Invalid private key",
+    description: "The private key you provided is not in a valid format",
+    solutions: [
+      "Use base58 encoded format (88 characters starting with letters/numbers)",
+      "Or use array format: [1,2,3,...] with exactly 64 numbers",
+      "Don't include spaces or special characters",
+      "Make sure you copied the full private key without truncation",
+    ],
+  }),
+  "insufficient-funds": (cluster) => ({
+    title: "Insufficient balance",
+    description:
+      "Your wallet doesn't have enough SOL to cover the transaction amount plus fees",
+    solutions: [
+      getFundingHint(cluster),
+      "Make sure you have extra SOL for transaction fees (~0.000005 SOL)",
+      "Check your balance with: npm run dev balance -k YOUR_PRIVATE_KEY",
+      ...(cluster === "mainnet-beta"
+        ? []
+        : [
+            "Wait a few minutes after requesting from faucet for balance to update",
+          ]),
+    ],
+    links:
+      cluster === "mainnet-beta" ? undefined : ["https://faucet.solana.com"],
+  }),
+  "non-system-account": () => ({
+    title: "This account may not be used to pay transaction fees",
     description:
       "You're trying to use an account that cannot sign transactions (like a token account or PDA)",
     solutions: [
@@ -25,72 +62,96 @@ export const COMMON_ERRORS: ErrorSolution[] = [
       "https://docs.solana.com/developing/programming-model/accounts",
       "https://phantom.app/",
     ],
-  },
-  {
-    error: "Insufficient balance",
+  }),
+  "blockhash-expired": (cluster) => ({
+    title: "Blockhash expired",
     description:
-      "Your wallet doesn't have enough SOL to cover the transaction amount plus fees",
+      "The transaction was not processed within ~1 minute of being built, so it can no longer land. No funds were moved.",
     solutions: [
-      "Check your balance with: npm run dev balance -k YOUR_PRIVATE_KEY",
-      "Get devnet SOL from the faucet: https://faucet.solana.com",
-      "Make sure you have extra SOL for transaction fees (~0.000005 SOL)",
-      "Wait a few minutes after requesting from faucet for balance to update",
+      "Send the transaction again",
+      ...(cluster === "mainnet-beta"
+        ? ["Add a priority fee so it lands under load: --priority-fee auto"]
+        : []),
+      "For offline signing, use a durable nonce (--nonce) so the transaction does not expire",
     ],
-    links: ["https://faucet.solana.com"],
-  },
-  {
-    error: "Invalid private key format",
-    description: "The private key you provided is not in a valid format",
+  }),
+  "rate-limited": (cluster) => ({
+    title: "RPC rate limit reached",
+    description:
+      "The RPC endpoint is refusing requests because too many were sent",
     solutions: [
-      "Use base58 encoded format (88 characters starting with letters/numbers)",
-      "Or use array format: [1,2,3,...] with exactly 64 numbers",
-      "Don't include spaces or special characters",
-      "Make sure you copied the full private key without truncation",
+      "Wait a few seconds and try again",
+      cluster === "mainnet-beta"
+        ? "The public mainnet endpoint is heavily limited; use a dedicated RPC provider with --url"
+        : "Use a different RPC endpoint with --url",
     ],
-  },
-  {
-    error: "Network connection failed",
+  }),
+  network: (cluster) => ({
+    title: "Network connection failed",
     description: "Cannot connect to the Solana network",
     solutions: [
       "Check your internet connection",
-      "Try switching to a different RPC endpoint",
+      cluster === "localnet"
+        ? "Make sure your local validator is running: solana-test-validator"
+        : "Try switching to a different RPC endpoint with --url",
       "Wait a few minutes and try again (network might be congested)",
-      "Use mainnet-beta for production (currently using devnet for testing)",
     ],
-  },
-];
+  }),
+  "transaction-failed": () => ({
+    title: "Transaction failed",
+    description:
+      "A program rejected the transaction. The error code and program logs say why.",
+    solutions: [
+      "Run the same send with --dry-run to see the program logs",
+      "Check that the accounts and amounts are what the program expects",
+    ],
+  }),
+};
 
-export function findErrorSolution(errorMessage: string): ErrorSolution | null {
-  return (
-    COMMON_ERRORS.find((solution) =>
-      errorMessage.toLowerCase().includes(solution.error.toLowerCase())
-    ) || null
-  );
+/**
+ * Get troubleshooting advice for an error type, if there is any
+ */
+export function getErrorSolution(
+  type: WalletErrorType | undefined,
+  cluster: ClusterType
+): ErrorSolution | null {
+  const help = type ? ERROR_HELP[type] : undefined;
+  return help ? help(cluster) : null;
 }
 
-export function displayErrorHelp(error: string): void {
-  const solution = findErrorSolution(error);
+/**
+ * Print troubleshooting advice for an error type. Invalid input needs
+ * none: its message already says what to fix.
+ */
+export function displayErrorHelp(
+  type: WalletErrorType | undefined,
+  cluster: ClusterType,
+  logger: Logger = consoleLogger
+): void {
+  const solution = getErrorSolution(type, cluster);
 
-  if (solution) {
-    console.log(`\n🔍 Error Analysis:`);
-    console.log(`❌ ${solution.error}`);
-    console.log(`📝 ${solution.description}\n`);
+  if (type === "invalid-input") {
+    return;
+  } else if (solution) {
+    logger.info(`\n🔍 Error Analysis:`);
+    logger.info(`❌ ${solution.title}`);
+    logger.info(`📝 ${solution.description}\n`);
 
-    console.log(`🔧 Solutions:`);
+    logger.info(`🔧 Solutions:`);
     solution.solutions.forEach((sol, index) => {
-      console.log(`   ${index + 1}. ${sol}`);
+      logger.info(`   ${index + 1}. ${sol}`);
     });
 
     if (solution.links) {
-      console.log(`\n🔗 Helpful Links:`);
+      logger.info(`\n🔗 Helpful Links:`);
       solution.links.forEach((link) => {
-        console.log(`   • ${link}`);
+        logger.info(`   • ${link}`);
       });
     }
 
-    console.log(`\n💡 Need more help? Run: npm run debug`);
+    logger.info(`\n💡 Need more help? Run: npm run debug`);
   } else {
-    console.log(
+    logger.info(
       `\n🤔 Unknown error. Run 'npm run debug' for troubleshooting help.`
     );
   }
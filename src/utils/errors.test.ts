@@ -0,0 +1,150 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ComputeBudgetProgram,
+  Keypair,
+  SendTransactionError,
+  SystemProgram,
+} from "@solana/web3.js";
+import { TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import {
+  BlockhashExpiredError,
+  InsufficientFundsError,
+  InvalidInputError,
+  NetworkError,
+  NonSystemAccountError,
+  RateLimitedError,
+  TransactionFailedError,
+  classifyError,
+  decodeTransactionError,
+} from "./errors";
+
+describe("decodeTransactionError", () => {
+  test("decodes transaction-level errors", () => {
+    assert.ok(
+      decodeTransactionError("BlockhashNotFound") instanceof
+        BlockhashExpiredError
+    );
+    assert.ok(
+      decodeTransactionError("InsufficientFundsForFee") instanceof
+        InsufficientFundsError
+    );
+    assert.ok(
+      decodeTransactionError("InvalidAccountForFee") instanceof
+        NonSystemAccountError
+    );
+    assert.match(
+      decodeTransactionError({ InsufficientFundsForRent: { account_index: 2 } })
+        .message,
+      /Account 2 .* rent-exempt minimum/
+    );
+
+    const unknown = decodeTransactionError("AlreadyProcessed", {
+      logs: ["log"],
+    });
+    assert.ok(unknown instanceof TransactionFailedError);
+    assert.equal(unknown.message, "Transaction failed: AlreadyProcessed");
+    assert.deepEqual(unknown.logs, ["log"]);
+  });
+
+  test("names custom errors of the system and token programs", () => {
+    const programIds = [ComputeBudgetProgram.programId, TOKEN_PROGRAM_ID];
+
+    const error = decodeTransactionError(
+      { InstructionError: [1, { Custom: 4 }] },
+      { programIds }
+    );
+    assert.ok(error instanceof TransactionFailedError);
+    assert.equal(
+      error.message,
+      "Instruction 1 failed with custom program error 0x4 (OwnerMismatch)"
+    );
+    assert.equal(error.instructionIndex, 1);
+    assert.equal(error.customCode, 4);
+    assert.equal(error.programId, TOKEN_PROGRAM_ID.toBase58());
+
+    assert.ok(
+      decodeTransactionError(
+        { InstructionError: [0, { Custom: 1 }] },
+        { programIds: [SystemProgram.programId] }
+      ) instanceof InsufficientFundsError
+    );
+    assert.ok(
+      decodeTransactionError(
+        { InstructionError: [1, { Custom: 1 }] },
+        { programIds }
+      ) instanceof InsufficientFundsError
+    );
+  });
+
+  test("leaves custom errors of other programs unnamed", () => {
+    const programId = Keypair.generate().publicKey;
+
+    const error = decodeTransactionError(
+      { InstructionError: [0, { Custom: 6000 }] },
+      { programIds: [programId] }
+    );
+
+    assert.ok(error instanceof TransactionFailedError);
+    assert.equal(
+      error.message,
+      "Instruction 0 failed with custom program error 0x1770"
+    );
+    assert.equal(error.programId, programId.toBase58());
+  });
+
+  test("decodes other instruction errors", () => {
+    assert.ok(
+      decodeTransactionError({
+        InstructionError: [0, "InsufficientFunds"],
+      }) instanceof InsufficientFundsError
+    );
+    assert.equal(
+      decodeTransactionError({ InstructionError: [2, "InvalidAccountData"] })
+        .message,
+      "Instruction 2 failed: InvalidAccountData"
+    );
+  });
+});
+
+describe("classifyError", () => {
+  test("keeps wallet errors", () => {
+    const error = new InvalidInputError("bad");
+    assert.equal(classifyError(error), error);
+  });
+
+  test("recognizes rate limits and transport failures", () => {
+    assert.ok(
+      classifyError(new Error("429 Too Many Requests")) instanceof
+        RateLimitedError
+    );
+    assert.ok(classifyError(new Error("fetch failed")) instanceof NetworkError);
+    assert.ok(
+      classifyError(new Error("connect ECONNREFUSED 127.0.0.1:8899")) instanceof
+        NetworkError
+    );
+    assert.ok(
+      classifyError(new Error("503 Service Unavailable")) instanceof
+        NetworkError
+    );
+  });
+
+  test("wraps send errors with their logs", () => {
+    const error = classifyError(
+      new SendTransactionError({
+        action: "send",
+        signature: "",
+        transactionMessage: "Transaction simulation failed",
+        logs: ["Program log: failed"],
+      })
+    );
+
+    assert.ok(error instanceof TransactionFailedError);
+    assert.deepEqual(error.logs, ["Program log: failed"]);
+  });
+
+  test("leaves unknown errors unclassified", () => {
+    assert.equal(classifyError(new Error("Something odd")), undefined);
+    assert.equal(classifyError("text"), undefined);
+  });
+});
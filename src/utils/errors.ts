@@ -0,0 +1,305 @@
+import {
+  PublicKey,
+  SendTransactionError,
+  SystemProgram,
+  TransactionError,
+} from "@solana/web3.js";
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from "@solana/spl-token";
+
+export type WalletErrorType =
+  | "invalid-key"
+  | "invalid-input"
+  | "insufficient-funds"
+  | "non-system-account"
+  | "blockhash-expired"
+  | "rate-limited"
+  | "network"
+  | "transaction-failed";
+
+/**
+ * Base class of every error the wallet library raises on purpose. The
+ * type selects the help text and the CLI exit code.
+ */
+export abstract class WalletError extends Error {
+  abstract readonly type: WalletErrorType;
+
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * A private key, seed phrase or keypair file that cannot be decoded
+ */
+export class InvalidKeyError extends WalletError {
+  readonly type = "invalid-key";
+}
+
+/**
+ * An argument that is malformed or refers to something that does not exist
+ */
+export class InvalidInputError extends WalletError {
+  readonly type = "invalid-input";
+}
+
+/**
+ * Not enough lamports or tokens for an amount, fee or rent
+ */
+export class InsufficientFundsError extends WalletError {
+  readonly type = "insufficient-funds";
+  // Lamports (or raw token units), when known
+  readonly available?: bigint;
+  readonly required?: bigint;
+
+  constructor(message: string, available?: bigint, required?: bigint) {
+    super(message);
+    this.available = available;
+    this.required = required;
+  }
+}
+
+/**
+ * The signer is owned by a program (token account, PDA, ...) and cannot pay
+ * fees or sign
+ */
+export class NonSystemAccountError extends WalletError {
+  readonly type = "non-system-account";
+  readonly owner?: string;
+
+  constructor(message: string, owner?: string) {
+    super(message);
+    this.owner = owner;
+  }
+}
+
+/**
+ * The recent blockhash expired before the transaction was processed; no
+ * funds were moved
+ */
+export class BlockhashExpiredError extends WalletError {
+  readonly type = "blockhash-expired";
+
+  constructor(
+    message: string = "The transaction's blockhash expired before it was processed. No funds were moved, it is safe to send again."
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * The RPC endpoint refused the request because of its rate limit
+ */
+export class RateLimitedError extends WalletError {
+  readonly type = "rate-limited";
+}
+
+/**
+ * The RPC endpoint could not be reached
+ */
+export class NetworkError extends WalletError {
+  readonly type = "network";
+}
+
+/**
+ * The runtime rejected the transaction, in simulation or on chain
+ */
+export class TransactionFailedError extends WalletError {
+  readonly type = "transaction-failed";
+  readonly instructionIndex?: number;
+  // Program-specific error code of a `Custom` instruction error
+  readonly customCode?: number;
+  readonly programId?: string;
+  readonly logs: string[];
+
+  constructor(
+    message: string,
+    details: {
+      instructionIndex?: number;
+      customCode?: number;
+      programId?: string;
+      logs?: string[];
+    } = {}
+  ) {
+    super(message);
+    this.instructionIndex = details.instructionIndex;
+    this.customCode = details.customCode;
+    this.programId = details.programId;
+    this.logs = details.logs ?? [];
+  }
+}
+
+// Custom error codes of the programs a wallet talks to
+const SYSTEM_PROGRAM_ERRORS = [
+  "AccountAlreadyInUse",
+  "ResultWithNegativeLamports",
+  "InvalidProgramId",
+  "InvalidAccountDataLength",
+  "MaxSeedLengthExceeded",
+  "AddressWithSeedMismatch",
+  "NonceNoRecentBlockhashes",
+  "NonceBlockhashNotExpired",
+  "NonceUnexpectedBlockhashValue",
+];
+const TOKEN_PROGRAM_ERRORS = [
+  "NotRentExempt",
+  "InsufficientFunds",
+  "InvalidMint",
+  "MintMismatch",
+  "OwnerMismatch",
+  "FixedSupply",
+  "AlreadyInUse",
+  "InvalidNumberOfProvidedSigners",
+  "InvalidNumberOfRequiredSigners",
+  "UninitializedState",
+  "NativeNotSupported",
+  "NonNativeHasBalance",
+  "InvalidInstruction",
+  "InvalidState",
+  "Overflow",
+  "AuthorityTypeNotSupported",
+  "MintCannotFreeze",
+  "AccountFrozen",
+  "MintDecimalsMismatch",
+  "NonNativeNotSupported",
+];
+
+/**
+ * Name of a custom program error, if the program is a known one
+ */
+function getCustomErrorName(
+  programId: PublicKey | undefined,
+  code: number
+): string | undefined {
+  if (!programId) return undefined;
+  if (programId.equals(SystemProgram.programId)) {
+    return SYSTEM_PROGRAM_ERRORS[code];
+  }
+  if (
+    programId.equals(TOKEN_PROGRAM_ID) ||
+    programId.equals(TOKEN_2022_PROGRAM_ID)
+  ) {
+    return TOKEN_PROGRAM_ERRORS[code];
+  }
+  return undefined;
+}
+
+/**
+ * Turn an RPC `TransactionError` (from simulation or a signature status)
+ * into a typed error. `programIds` lists the program of each instruction so
+ * custom error codes can be named.
+ */
+export function decodeTransactionError(
+  err: TransactionError,
+  context: { programIds?: PublicKey[]; logs?: string[] } = {}
+): WalletError {
+  const { programIds = [], logs = [] } = context;
+
+  if (typeof err === "string") {
+    switch (err) {
+      case "BlockhashNotFound":
+        return new BlockhashExpiredError();
+      case "InsufficientFundsForFee":
+        return new InsufficientFundsError(
+          "Insufficient balance to pay the transaction fee"
+        );
+      case "AccountNotFound":
+        return new InsufficientFundsError(
+          "The fee payer account does not exist yet. Fund it before sending transactions."
+        );
+      case "InvalidAccountForFee":
+        return new NonSystemAccountError(
+          "This account may not be used to pay transaction fees"
+        );
+      default:
+        return new TransactionFailedError(`Transaction failed: ${err}`, {
+          logs,
+        });
+    }
+  }
+
+  const variant = err as Record<string, unknown>;
+  if ("InsufficientFundsForRent" in variant) {
+    const { account_index } = variant.InsufficientFundsForRent as {
+      account_index: number;
+    };
+    return new InsufficientFundsError(
+      `Account ${account_index} of the transaction would be left below the rent-exempt minimum balance`
+    );
+  }
+
+  if ("InstructionError" in variant) {
+    const [index, detail] = variant.InstructionError as [number, unknown];
+    const programId = programIds[index];
+
+    if (detail === "InsufficientFunds") {
+      return new InsufficientFundsError(
+        `Instruction ${index} failed: insufficient funds`
+      );
+    }
+
+    if (typeof detail === "object" && detail !== null && "Custom" in detail) {
+      const code = (detail as { Custom: number }).Custom;
+      const name = getCustomErrorName(programId, code);
+      if (
+        name === "ResultWithNegativeLamports" ||
+        name === "InsufficientFunds"
+      ) {
+        return new InsufficientFundsError(
+          `Instruction ${index} failed: insufficient funds (${name})`
+        );
+      }
+      return new TransactionFailedError(
+        `Instruction ${index} failed with custom program error 0x${code.toString(
+          16
+        )}${name ? ` (${name})` : ""}`,
+        {
+          instructionIndex: index,
+          customCode: code,
+          programId: programId?.toBase58(),
+          logs,
+        }
+      );
+    }
+
+    return new TransactionFailedError(
+      `Instruction ${index} failed: ${
+        typeof detail === "string" ? detail : JSON.stringify(detail)
+      }`,
+      { instructionIndex: index, programId: programId?.toBase58(), logs }
+    );
+  }
+
+  return new TransactionFailedError(
+    `Transaction failed: ${JSON.stringify(err)}`,
+    { logs }
+  );
+}
+
+/**
+ * Typed view of any error, or undefined if it is not a known failure.
+ * web3.js reports transport failures as plain errors, so those are the only
+ * ones recognised by their message.
+ */
+export function classifyError(error: unknown): WalletError | undefined {
+  if (error instanceof WalletError) return error;
+
+  if (error instanceof SendTransactionError) {
+    return new TransactionFailedError(error.transactionError.message, {
+      logs: error.transactionError.logs,
+    });
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (/\b429\b|too many requests/i.test(message)) {
+    return new RateLimitedError(message);
+  }
+  if (
+    /fetch failed|ECONNREFUSED|ENOTFOUND|ETIMEDOUT|ECONNRESET|socket hang up|\b50[234]\b/i.test(
+      message
+    )
+  ) {
+    return new NetworkError(message);
+  }
+  return undefined;
+}
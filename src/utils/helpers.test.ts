@@ -0,0 +1,106 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { Connection } from "@solana/web3.js";
+import { InvalidInputError } from "./errors";
+import {
+  GENESIS_HASHES,
+  detectCluster,
+  formatBalance,
+  formatDecimalAmount,
+  isValidNumber,
+  lamportsToSol,
+  parseDecimalAmount,
+  solToLamports,
+  toInstructionLamports,
+} from "./helpers";
+
+function connectionWithGenesis(genesisHash: string): Connection {
+  return {
+    getGenesisHash: async () => genesisHash,
+  } as unknown as Connection;
+}
+
+describe("detectCluster", () => {
+  test("recognizes the public clusters by genesis hash", async () => {
+    for (const [cluster, genesisHash] of Object.entries(GENESIS_HASHES)) {
+      assert.equal(
+        await detectCluster(connectionWithGenesis(genesisHash)),
+        cluster
+      );
+    }
+  });
+
+  test("treats any other chain as localnet", async () => {
+    assert.equal(
+      await detectCluster(
+        connectionWithGenesis("4sGjMW1sUnHzSxGspuhpqLDx6wiyjNtZAMdL4VZHirAn")
+      ),
+      "localnet"
+    );
+  });
+});
+
+describe("amounts", () => {
+  test("parses SOL into exact lamports", () => {
+    assert.equal(solToLamports("1"), 1_000_000_000n);
+    assert.equal(solToLamports("1.005"), 1_005_000_000n);
+    assert.equal(solToLamports("0.000000001"), 1n);
+    assert.equal(solToLamports(".5"), 500_000_000n);
+    assert.equal(solToLamports(" 2. "), 2_000_000_000n);
+    // 0.1 + 0.2 is not 0.3 in floating point
+    assert.equal(
+      solToLamports("0.1") + solToLamports("0.2"),
+      solToLamports("0.3")
+    );
+    assert.equal(
+      solToLamports("123456789012.123456789"),
+      123_456_789_012_123_456_789n
+    );
+  });
+
+  test("rejects malformed, negative and over-precise amounts", () => {
+    for (const amount of ["", ".", "-1", "1e9", "1,5", "abc", "1.0000000001"]) {
+      assert.throws(() => solToLamports(amount), InvalidInputError);
+    }
+    assert.throws(() => parseDecimalAmount("1.234", 2), /at most 2 decimal/);
+    assert.equal(parseDecimalAmount("1.23", 2), 123n);
+    assert.equal(parseDecimalAmount("7", 0), 7n);
+  });
+
+  test("formats lamports as exact SOL", () => {
+    assert.equal(lamportsToSol(0n), "0");
+    assert.equal(lamportsToSol(1n), "0.000000001");
+    assert.equal(lamportsToSol(1_500_000_000n), "1.5");
+    assert.equal(lamportsToSol(5_000), "0.000005");
+    assert.equal(formatDecimalAmount(-1_230n, 3), "-1.23");
+    assert.equal(formatBalance(1_234_567_000_000_000n), "1,234,567");
+    assert.equal(formatBalance(1_234_500_000_001n), "1,234.500000001");
+  });
+
+  test("round-trips amounts", () => {
+    for (const amount of ["0", "1", "0.000000001", "18446744073.709551615"]) {
+      assert.equal(lamportsToSol(solToLamports(amount)), amount);
+    }
+  });
+
+  test("only passes amounts a number holds exactly to instructions", () => {
+    assert.equal(toInstructionLamports(0n), 0);
+    assert.equal(
+      toInstructionLamports(BigInt(Number.MAX_SAFE_INTEGER)),
+      Number.MAX_SAFE_INTEGER
+    );
+    assert.throws(
+      () => toInstructionLamports(BigInt(Number.MAX_SAFE_INTEGER) + 1n),
+      InvalidInputError
+    );
+    assert.throws(() => toInstructionLamports(-1n), InvalidInputError);
+  });
+
+  test("isValidNumber requires a positive decimal", () => {
+    assert.equal(isValidNumber("0.5"), true);
+    assert.equal(isValidNumber(".5"), true);
+    assert.equal(isValidNumber("0"), false);
+    assert.equal(isValidNumber("-1"), false);
+    assert.equal(isValidNumber("1e3"), false);
+  });
+});
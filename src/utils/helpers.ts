@@ -1,10 +1,18 @@
-import { PublicKey } from "@solana/web3.js";
+import { Commitment, Connection, PublicKey } from "@solana/web3.js";
+import os from "os";
+import path from "path";
+import { ClusterType, NetworkInfo } from "../types";
+import { InvalidInputError } from "./errors";
+
+export const SOL_DECIMALS = 9;
 
 /**
- * Format balance for display
+ * Format a lamport balance as SOL for display, with thousands separators
  */
-export function formatBalance(balance: number): string {
-  return balance.toFixed(6);
+export function formatBalance(lamports: bigint | number): string {
+  const [whole, fraction] = lamportsToSol(lamports).split(".");
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+  return fraction ? `${grouped}.${fraction}` : grouped;
 }
 
 /**
@@ -27,17 +35,30 @@ export function formatNumber(num: number): string {
 }
 
 /**
- * Convert SOL to lamports
+ * Parse a decimal SOL amount such as "1.005" into exact lamports
+ */
+export function solToLamports(sol: string): bigint {
+  return parseDecimalAmount(sol, SOL_DECIMALS);
+}
+
+/**
+ * Convert lamports to the number web3.js instructions take, refusing
+ * amounts a number cannot hold exactly
  */
-export function solToLamports(sol: number): number {
-  return sol * 1_000_000_000; // 1 SOL = 1,000,000,000 lamports
+export function toInstructionLamports(lamports: bigint): number {
+  if (lamports < 0n || lamports > BigInt(Number.MAX_SAFE_INTEGER)) {
+    throw new InvalidInputError(
+      `${formatBalance(lamports)} SOL is outside the supported amount range`
+    );
+  }
+  return Number(lamports);
 }
 
 /**
- * Convert lamports to SOL
+ * Convert lamports to an exact decimal SOL string
  */
-export function lamportsToSol(lamports: number): number {
-  return lamports / 1_000_000_000;
+export function lamportsToSol(lamports: bigint | number): string {
+  return formatDecimalAmount(BigInt(lamports), SOL_DECIMALS);
 }
 
 /**
@@ -59,32 +80,121 @@ export function sleep(ms: number): Promise<void> {
  * Check if string is a valid number
  */
 export function isValidNumber(str: string): boolean {
-  const num = parseFloat(str);
-  return !isNaN(num) && isFinite(num) && num > 0;
+  const trimmed = str.trim();
+  return /^(\d+(\.\d*)?|\.\d+)$/.test(trimmed) && /[1-9]/.test(trimmed);
+}
+
+export const CLUSTERS: ClusterType[] = [
+  "devnet",
+  "testnet",
+  "mainnet-beta",
+  "localnet",
+];
+
+export const COMMITMENTS: Commitment[] = [
+  "processed",
+  "confirmed",
+  "finalized",
+];
+
+/**
+ * Check if a string is a supported cluster name
+ */
+export function isValidCluster(cluster: string): cluster is ClusterType {
+  return (CLUSTERS as string[]).includes(cluster);
+}
+
+/**
+ * Check if a string is a supported commitment level
+ */
+export function isValidCommitment(
+  commitment: string
+): commitment is Commitment {
+  return (COMMITMENTS as string[]).includes(commitment);
 }
 
 /**
  * Get cluster URL based on environment
  */
-export function getClusterUrl(
-  cluster: "devnet" | "testnet" | "mainnet-beta" = "devnet"
-): string {
+export function getClusterUrl(cluster: ClusterType = "devnet"): string {
   const urls = {
     devnet: "https://api.devnet.solana.com",
     testnet: "https://api.testnet.solana.com",
     "mainnet-beta": "https://api.mainnet-beta.solana.com",
+    localnet: "http://127.0.0.1:8899",
   };
   return urls[cluster];
 }
 
+/**
+ * Genesis hash of each public cluster; it identifies the cluster behind any
+ * RPC endpoint
+ */
+export const GENESIS_HASHES: Record<
+  Exclude<ClusterType, "localnet">,
+  string
+> = {
+  devnet: "EtWTRABZaYq6iMfeYKouRu166VU2xqa1wcaWoxPkrZBG",
+  testnet: "4uhcVJyU9pJkvQyS88uRDiswHXSCkY3zQawwpjk2NsNY",
+  "mainnet-beta": "5eykt4UsFv8P8NJdTREpY1vzqKqZKvdpKuc147dw2N9d",
+};
+
+/**
+ * Ask an RPC endpoint which cluster it serves. Any other chain, such as a
+ * local test validator, counts as localnet.
+ */
+export async function detectCluster(
+  connection: Connection
+): Promise<ClusterType> {
+  const genesisHash = await connection.getGenesisHash();
+  const cluster = CLUSTERS.find(
+    (candidate) =>
+      candidate !== "localnet" && GENESIS_HASHES[candidate] === genesisHash
+  );
+  return cluster ?? "localnet";
+}
+
+/**
+ * Build the network configuration for a cluster and optional custom RPC URL
+ */
+export function getNetworkInfo(
+  cluster: ClusterType = "devnet",
+  url?: string,
+  commitment: Commitment = "confirmed"
+): NetworkInfo {
+  const rpcUrl = url || getClusterUrl(cluster);
+  return {
+    cluster,
+    url: rpcUrl,
+    explorerBaseUrl: "https://explorer.solana.com",
+    commitment,
+  };
+}
+
+/**
+ * Query string selecting the cluster on Solana Explorer
+ */
+function getExplorerClusterParam(
+  cluster: ClusterType,
+  customUrl?: string
+): string {
+  if (cluster === "mainnet-beta") return "";
+  if (cluster === "localnet") {
+    const url = customUrl || getClusterUrl("localnet");
+    return `?cluster=custom&customUrl=${encodeURIComponent(url)}`;
+  }
+  return `?cluster=${cluster}`;
+}
+
 /**
  * Get explorer URL for transaction
  */
 export function getExplorerUrl(
   signature: string,
-  cluster: "devnet" | "testnet" | "mainnet-beta" = "devnet"
+  cluster: ClusterType = "devnet",
+  customUrl?: string
 ): string {
-  const clusterParam = cluster === "mainnet-beta" ? "" : `?cluster=${cluster}`;
+  const clusterParam = getExplorerClusterParam(cluster, customUrl);
   return `https://explorer.solana.com/tx/${signature}${clusterParam}`;
 }
 
@@ -93,8 +203,89 @@ export function getExplorerUrl(
  */
 export function getAddressExplorerUrl(
   address: string,
-  cluster: "devnet" | "testnet" | "mainnet-beta" = "devnet"
+  cluster: ClusterType = "devnet",
+  customUrl?: string
 ): string {
-  const clusterParam = cluster === "mainnet-beta" ? "" : `?cluster=${cluster}`;
+  const clusterParam = getExplorerClusterParam(cluster, customUrl);
   return `https://explorer.solana.com/address/${address}${clusterParam}`;
 }
+
+/**
+ * Get advice on how to fund a wallet on the given cluster
+ */
+export function getFundingHint(cluster: ClusterType): string {
+  switch (cluster) {
+    case "mainnet-beta":
+      return "Buy SOL on an exchange and withdraw it to your wallet address";
+    case "localnet":
+      return "Fund it from your local validator with: npm run dev airdrop 2 -c localnet";
+    default:
+      return `Fund it with: npm run dev airdrop 1 -c ${cluster} (or get ${cluster} SOL from https://faucet.solana.com)`;
+  }
+}
+
+/**
+ * Get the directory where sol-tx stores its local data (keystore, etc.)
+ */
+export function getConfigDir(): string {
+  return (
+    process.env.SOL_TX_HOME || path.join(os.homedir(), ".config", "sol-tx")
+  );
+}
+
+/**
+ * Parse a decimal amount string (e.g. "1.5") into base units without
+ * floating point rounding
+ */
+export function parseDecimalAmount(amount: string, decimals: number): bigint {
+  const trimmed = amount.trim();
+  if (trimmed.startsWith("-")) {
+    throw new InvalidInputError(
+      `Invalid amount "${amount}": must not be negative`
+    );
+  }
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(trimmed);
+  if (!match || trimmed === "" || trimmed === ".") {
+    throw new InvalidInputError(`Invalid amount "${amount}"`);
+  }
+
+  const [, whole, fraction = ""] = match;
+  if (fraction.length > decimals) {
+    throw new InvalidInputError(
+      `Invalid amount "${amount}": at most ${decimals} decimal places are allowed`
+    );
+  }
+
+  return BigInt((whole || "0") + fraction.padEnd(decimals, "0"));
+}
+
+/**
+ * Format an amount in base units as a decimal string
+ */
+export function formatDecimalAmount(amount: bigint, decimals: number): string {
+  const negative = amount < 0n;
+  const digits = (negative ? -amount : amount)
+    .toString()
+    .padStart(decimals + 1, "0");
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, "");
+  return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+}
+
+/**
+ * Render rows as CSV, quoting fields where needed
+ */
+export function toCsv(rows: (string | number | undefined)[][]): string {
+  return rows
+    .map((row) =>
+      row
+        .map((field) => {
+          const value = field === undefined ? "" : String(field);
+          return /[",\n\r]/.test(value)
+            ? `"${value.replace(/"/g, '""')}"`
+            : value;
+        })
+        .join(",")
+    )
+    .join("\n");
+}
@@ -0,0 +1,91 @@
+import { spawn } from "child_process";
+import { WatchEvent } from "../types";
+import { InvalidInputError } from "./errors";
+import { toJson } from "./output";
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/**
+ * Run a shell command for a watch event. The event is passed as JSON on
+ * stdin and in SOL_TX_EVENT, with its main fields in separate variables.
+ * Resolves with the exit code.
+ */
+export function runEventCommand(
+  command: string,
+  event: WatchEvent,
+  // In --json mode stdout carries only our own output
+  stdout: "inherit" | "stderr" = "inherit"
+): Promise<number> {
+  const json = toJson(event);
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, {
+      shell: true,
+      stdio: [
+        "pipe",
+        stdout === "stderr" ? process.stderr : "inherit",
+        "inherit",
+      ],
+      env: {
+        ...process.env,
+        SOL_TX_EVENT: json,
+        SOL_TX_EVENT_TYPE: event.type,
+        SOL_TX_ADDRESS: event.address,
+        SOL_TX_SLOT: String(event.slot),
+        ...(event.type === "balance"
+          ? {
+              SOL_TX_LAMPORTS: event.lamports.toString(),
+              SOL_TX_DELTA: event.delta.toString(),
+            }
+          : {
+              SOL_TX_SIGNATURE: event.transaction.signature,
+              SOL_TX_DIRECTION: event.transaction.direction ?? "none",
+              SOL_TX_COUNTERPARTY: event.transaction.counterparty ?? "",
+              SOL_TX_AMOUNT: event.transaction.amount.toString(),
+            }),
+      },
+    });
+    child.on("error", reject);
+    child.on("close", (code) => resolve(code ?? 1));
+    // The command may exit without reading its input
+    child.stdin.on("error", () => {});
+    child.stdin.end(json + "\n");
+  });
+}
+
+/**
+ * POST a watch event as JSON to a webhook URL
+ */
+export async function postWebhook(
+  url: string,
+  event: WatchEvent
+): Promise<void> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: toJson(event),
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(
+      `Webhook responded with ${response.status} ${response.statusText}`
+    );
+  }
+}
+
+/**
+ * Check that a webhook URL is an http(s) URL
+ */
+export function validateWebhookUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new InvalidInputError(`Invalid webhook URL: ${url}`);
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new InvalidInputError(
+      `Webhook URL must use http or https, got ${parsed.protocol}`
+    );
+  }
+  return parsed.toString();
+}
@@ -0,0 +1,102 @@
+import { afterEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { InsufficientFundsError, NetworkError } from "./errors";
+import {
+  CommandError,
+  EXIT_CODES,
+  emitResult,
+  enableJsonOutput,
+  getErrorCode,
+  isJsonOutput,
+  reportError,
+  toJson,
+} from "./output";
+
+/**
+ * Run a function and return what it wrote to stdout
+ */
+function captureStdout(run: () => void): string {
+  const write = process.stdout.write;
+  let output = "";
+  process.stdout.write = ((chunk: string) => {
+    output += chunk;
+    return true;
+  }) as typeof process.stdout.write;
+  try {
+    run();
+  } finally {
+    process.stdout.write = write;
+  }
+  return output;
+}
+
+describe("toJson", () => {
+  test("writes bigints as strings", () => {
+    assert.equal(
+      toJson({ lamports: 18_446_744_073_709_551_615n, slot: 7 }),
+      '{"lamports":"18446744073709551615","slot":7}'
+    );
+  });
+});
+
+describe("getErrorCode", () => {
+  test("maps errors to their failure class", () => {
+    assert.equal(
+      getErrorCode(new CommandError("bad", "INVALID_INPUT")),
+      "INVALID_INPUT"
+    );
+    assert.equal(
+      getErrorCode(new InsufficientFundsError("poor")),
+      "INSUFFICIENT_FUNDS"
+    );
+    assert.equal(getErrorCode(new NetworkError("down")), "NETWORK_ERROR");
+    assert.equal(getErrorCode("something else"), "ERROR");
+  });
+});
+
+// JSON mode cannot be switched off again, so these tests run in order
+describe("JSON output", () => {
+  afterEach(() => {
+    process.exitCode = undefined;
+  });
+
+  test("prints nothing for a result in human mode", () => {
+    assert.equal(isJsonOutput(), false);
+    assert.equal(
+      captureStdout(() => emitResult({ balance: 1n })),
+      ""
+    );
+  });
+
+  test("prints the result as a single document", () => {
+    enableJsonOutput();
+
+    const output = captureStdout(() => emitResult({ balance: 1_500_000_000n }));
+
+    assert.deepEqual(JSON.parse(output), { ok: true, balance: "1500000000" });
+  });
+
+  test("reports an error with its code and exit code", () => {
+    const output = captureStdout(() =>
+      reportError(new InsufficientFundsError("Insufficient balance"))
+    );
+
+    assert.equal(process.exitCode, EXIT_CODES.INSUFFICIENT_FUNDS);
+    assert.deepEqual(JSON.parse(output), {
+      ok: false,
+      error: {
+        code: "INSUFFICIENT_FUNDS",
+        exitCode: EXIT_CODES.INSUFFICIENT_FUNDS,
+        type: "insufficient-funds",
+        message: "Insufficient balance",
+      },
+    });
+  });
+
+  test("leaves console.log on stdout", () => {
+    // Human-facing output is routed by the CLI logger, not by patching console
+    const output = captureStdout(() => console.log("hello"));
+
+    assert.equal(output, "hello\n");
+  });
+});
@@ -0,0 +1,122 @@
+import { WalletErrorType, classifyError } from "./errors";
+
+/**
+ * Process exit codes, one per failure class (see README)
+ */
+export const EXIT_CODES = {
+  SUCCESS: 0,
+  ERROR: 1,
+  INVALID_INPUT: 2,
+  INSUFFICIENT_FUNDS: 3,
+  NETWORK_ERROR: 4,
+  TRANSACTION_FAILED: 5,
+} as const;
+
+export type ExitCodeName = keyof typeof EXIT_CODES;
+
+/**
+ * An error raised by a command with an explicit failure class
+ */
+export class CommandError extends Error {
+  readonly code: ExitCodeName;
+
+  constructor(message: string, code: ExitCodeName = "ERROR") {
+    super(message);
+    this.name = "CommandError";
+    this.code = code;
+  }
+}
+
+let jsonOutput = false;
+
+/**
+ * Switch to JSON output: stdout carries only the JSON document, all
+ * human-facing output goes to stderr
+ */
+export function enableJsonOutput(): void {
+  jsonOutput = true;
+}
+
+export function isJsonOutput(): boolean {
+  return jsonOutput;
+}
+
+/**
+ * Print a value as JSON on stdout. Bigints (lamports, token amounts) are
+ * written as strings so no precision is lost.
+ */
+export function printJson(value: unknown): void {
+  process.stdout.write(toJson(value, 2) + "\n");
+}
+
+/**
+ * Write one compact JSON document per line, for streaming commands
+ */
+export function printJsonLine(value: unknown): void {
+  process.stdout.write(toJson(value) + "\n");
+}
+
+/**
+ * Serialize a value as JSON with bigints written as strings
+ */
+export function toJson(value: unknown, space?: number): string {
+  return JSON.stringify(
+    value,
+    (_key, field) => (typeof field === "bigint" ? field.toString() : field),
+    space
+  );
+}
+
+/**
+ * Emit the result of a successful command in JSON mode
+ */
+export function emitResult(result: Record<string, unknown>): void {
+  if (jsonOutput) {
+    printJson({ ok: true, ...result });
+  }
+}
+
+const EXIT_CODE_BY_ERROR_TYPE: Record<WalletErrorType, ExitCodeName> = {
+  "invalid-key": "INVALID_INPUT",
+  "invalid-input": "INVALID_INPUT",
+  "non-system-account": "INVALID_INPUT",
+  "insufficient-funds": "INSUFFICIENT_FUNDS",
+  "rate-limited": "NETWORK_ERROR",
+  network: "NETWORK_ERROR",
+  "blockhash-expired": "TRANSACTION_FAILED",
+  "transaction-failed": "TRANSACTION_FAILED",
+};
+
+/**
+ * Work out the failure class of an error
+ */
+export function getErrorCode(error: unknown): ExitCodeName {
+  if (error instanceof CommandError) return error.code;
+
+  const walletError = classifyError(error);
+  return walletError ? EXIT_CODE_BY_ERROR_TYPE[walletError.type] : "ERROR";
+}
+
+/**
+ * Report a failed command: set the exit code and print the error, as a
+ * structured object in JSON mode
+ */
+export function reportError(error: unknown, context: string = "Error"): void {
+  const code = getErrorCode(error);
+  const message = error instanceof Error ? error.message : "Unknown error";
+  process.exitCode = EXIT_CODES[code];
+
+  if (jsonOutput) {
+    printJson({
+      ok: false,
+      error: {
+        code,
+        exitCode: EXIT_CODES[code],
+        type: classifyError(error)?.type,
+        message,
+      },
+    });
+  } else {
+    console.error(`❌ ${context}:`, message);
+  }
+}
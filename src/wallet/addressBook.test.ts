@@ -0,0 +1,110 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { Keypair } from "@solana/web3.js";
+import { InvalidInputError } from "../utils/errors";
+import { AddressBook } from "./addressBook";
+
+describe("AddressBook", () => {
+  let dir: string;
+  let book: AddressBook;
+  const alice = Keypair.generate().publicKey.toBase58();
+  const bob = Keypair.generate().publicKey.toBase58();
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "address-book-test-"));
+    book = new AddressBook(path.join(dir, "address-book.json"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("validates labels", () => {
+    assert.equal(AddressBook.isValidLabel("alice"), true);
+    assert.equal(AddressBook.isValidLabel("team.payroll-2_b"), true);
+    assert.equal(AddressBook.isValidLabel(""), false);
+    assert.equal(AddressBook.isValidLabel("a".repeat(33)), false);
+    assert.equal(AddressBook.isValidLabel("alice smith"), false);
+    // A label spelling an address would shadow that address
+    assert.equal(AddressBook.isValidLabel(bob), false);
+  });
+
+  test("resolves labels case-insensitively and addresses to themselves", () => {
+    book.add({ label: "Alice", address: alice });
+
+    assert.equal(book.resolve("alice", "devnet"), alice);
+    assert.equal(book.resolve("ALICE", "mainnet-beta"), alice);
+    assert.equal(book.resolve(bob, "devnet"), bob);
+    assert.throws(
+      () => book.resolve("carol", "devnet"),
+      /neither a valid address nor a contact/
+    );
+  });
+
+  test("refuses contacts saved for another cluster", () => {
+    book.add({ label: "faucet", address: alice, cluster: "devnet" });
+
+    assert.equal(book.resolve("faucet", "devnet"), alice);
+    assert.throws(
+      () => book.resolve("faucet", "mainnet-beta"),
+      (error) =>
+        error instanceof InvalidInputError &&
+        /saved for devnet, not mainnet-beta/.test(error.message)
+    );
+    assert.deepEqual(book.list("mainnet-beta"), []);
+    assert.equal(book.findByAddress(alice, "devnet")?.label, "faucet");
+  });
+
+  test("an address wins over a stored label that spells it", () => {
+    fs.writeFileSync(
+      book.getPath(),
+      JSON.stringify({
+        version: 1,
+        contacts: [{ label: bob, address: alice, createdAt: "" }],
+      })
+    );
+
+    assert.equal(book.resolve(bob, "devnet"), bob);
+  });
+
+  test("adds, updates and removes contacts", () => {
+    book.add({ label: "alice", address: alice });
+    assert.throws(
+      () => book.add({ label: "ALICE", address: bob }),
+      /already exists/
+    );
+    assert.throws(
+      () => book.add({ label: "bob", address: "not-an-address" }),
+      InvalidInputError
+    );
+
+    book.add({ label: "bob", address: bob });
+    assert.throws(
+      () => book.update("bob", { label: "alice" }),
+      /already exists/
+    );
+    book.update("bob", { label: "robert", note: "payroll" });
+    assert.equal(book.get("robert")?.note, "payroll");
+
+    book.remove("alice");
+    assert.deepEqual(
+      book.list().map(({ label }) => label),
+      ["robert"]
+    );
+    assert.throws(() => book.remove("alice"), /not found/);
+  });
+
+  test("writes the file privately and atomically", () => {
+    book.add({ label: "alice", address: alice });
+
+    assert.equal(fs.statSync(book.getPath()).mode & 0o777, 0o600);
+    assert.equal(fs.existsSync(`${book.getPath()}.tmp`), false);
+    assert.equal(
+      new AddressBook(book.getPath()).resolve("alice", "devnet"),
+      alice
+    );
+  });
+});
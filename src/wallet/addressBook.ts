@@ -0,0 +1,188 @@
+import fs from "fs";
+import path from "path";
+import { AddressBookFile, ClusterType, Contact } from "../types";
+import { InvalidInputError } from "../utils/errors";
+import { getConfigDir, validatePublicKey } from "../utils/helpers";
+
+const LABEL_PATTERN = /^[A-Za-z0-9_.-]{1,32}$/;
+
+export class AddressBook {
+  private filePath: string;
+
+  constructor(filePath: string = AddressBook.defaultPath()) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Default address book location inside the sol-tx config directory
+   */
+  static defaultPath(): string {
+    return path.join(getConfigDir(), "address-book.json");
+  }
+
+  /**
+   * Get the address book file path
+   */
+  getPath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * List contacts, optionally only those usable on a cluster
+   */
+  list(cluster?: ClusterType): Contact[] {
+    return this.read().contacts.filter((contact) =>
+      appliesTo(contact, cluster)
+    );
+  }
+
+  /**
+   * Find a contact by label (case-insensitive)
+   */
+  get(label: string): Contact | undefined {
+    const wanted = label.toLowerCase();
+    return this.read().contacts.find(
+      (contact) => contact.label.toLowerCase() === wanted
+    );
+  }
+
+  /**
+   * Find the contact saved for an address on a cluster
+   */
+  findByAddress(address: string, cluster?: ClusterType): Contact | undefined {
+    return this.list(cluster).find((contact) => contact.address === address);
+  }
+
+  /**
+   * Turn a contact label or an address into an address. Labels saved for
+   * another cluster are refused so devnet contacts never receive mainnet
+   * funds. A valid address always resolves to itself.
+   */
+  resolve(labelOrAddress: string, cluster: ClusterType): string {
+    // Checked first so a label that looks like an address (saved before
+    // such labels were refused) cannot redirect payments
+    if (validatePublicKey(labelOrAddress)) {
+      return labelOrAddress;
+    }
+    const contact = this.get(labelOrAddress);
+    if (contact) {
+      if (!appliesTo(contact, cluster)) {
+        throw new InvalidInputError(
+          `Contact "${contact.label}" is saved for ${contact.cluster}, not ${cluster}`
+        );
+      }
+      return contact.address;
+    }
+    throw new InvalidInputError(
+      `"${labelOrAddress}" is neither a valid address nor a contact in the address book`
+    );
+  }
+
+  /**
+   * Save a new contact
+   */
+  add(contact: Omit<Contact, "createdAt">): Contact {
+    AddressBook.assertValidContact(contact);
+
+    const data = this.read();
+    if (this.get(contact.label)) {
+      throw new InvalidInputError(
+        `Contact "${contact.label}" already exists in the address book`
+      );
+    }
+
+    const saved = { ...contact, createdAt: new Date().toISOString() };
+    data.contacts.push(saved);
+    this.write(data);
+    return saved;
+  }
+
+  /**
+   * Change the label, address, note or cluster of a contact
+   */
+  update(label: string, changes: Partial<Omit<Contact, "createdAt">>): Contact {
+    const data = this.read();
+    const index = findIndex(data, label);
+    const updated = { ...data.contacts[index], ...changes };
+    AddressBook.assertValidContact(updated);
+
+    if (
+      updated.label.toLowerCase() !== label.toLowerCase() &&
+      this.get(updated.label)
+    ) {
+      throw new InvalidInputError(
+        `Contact "${updated.label}" already exists in the address book`
+      );
+    }
+
+    data.contacts[index] = updated;
+    this.write(data);
+    return updated;
+  }
+
+  /**
+   * Remove a contact
+   */
+  remove(label: string): void {
+    const data = this.read();
+    data.contacts.splice(findIndex(data, label), 1);
+    this.write(data);
+  }
+
+  /**
+   * Validate a contact label. Labels that are themselves valid addresses
+   * are refused, since they would shadow the address they spell.
+   */
+  static isValidLabel(label: string): boolean {
+    return LABEL_PATTERN.test(label) && !validatePublicKey(label);
+  }
+
+  private static assertValidContact(contact: Omit<Contact, "createdAt">) {
+    if (!AddressBook.isValidLabel(contact.label)) {
+      throw new InvalidInputError(
+        "Invalid contact label. Use 1-32 letters, numbers, '.', '-' or '_' that do not form an address."
+      );
+    }
+    if (!validatePublicKey(contact.address)) {
+      throw new InvalidInputError(`Invalid address "${contact.address}"`);
+    }
+  }
+
+  private read(): AddressBookFile {
+    if (!fs.existsSync(this.filePath)) {
+      return { version: 1, contacts: [] };
+    }
+
+    const data = JSON.parse(fs.readFileSync(this.filePath, "utf8"));
+    if (data.version !== 1 || !Array.isArray(data.contacts)) {
+      throw new Error(`Unsupported address book format in ${this.filePath}`);
+    }
+    return data as AddressBookFile;
+  }
+
+  private write(data: AddressBookFile): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true, mode: 0o700 });
+
+    // Write to a temporary file first so a crash never leaves a truncated file
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(data, null, 2), { mode: 0o600 });
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
+
+function appliesTo(contact: Contact, cluster?: ClusterType): boolean {
+  return !cluster || !contact.cluster || contact.cluster === cluster;
+}
+
+function findIndex(data: AddressBookFile, label: string): number {
+  const wanted = label.toLowerCase();
+  const index = data.contacts.findIndex(
+    (contact) => contact.label.toLowerCase() === wanted
+  );
+  if (index === -1) {
+    throw new InvalidInputError(
+      `Contact "${label}" not found in the address book`
+    );
+  }
+  return index;
+}
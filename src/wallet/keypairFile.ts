@@ -0,0 +1,123 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Keypair } from "@solana/web3.js";
+import { InvalidInputError, InvalidKeyError } from "../utils/errors";
+
+// Default keypair location used by the Solana CLI
+export const DEFAULT_KEYPAIR_PATH = path.join(
+  os.homedir(),
+  ".config",
+  "solana",
+  "id.json"
+);
+
+/**
+ * Expand a leading ~ to the user's home directory
+ */
+export function expandHomePath(filePath: string): string {
+  if (filePath === "~") return os.homedir();
+  if (filePath.startsWith("~/")) {
+    return path.join(os.homedir(), filePath.slice(2));
+  }
+  return filePath;
+}
+
+/**
+ * Read a keypair from a solana-keygen JSON file (array of 64 numbers)
+ */
+export function readKeypairFile(filePath: string): Keypair {
+  const resolvedPath = path.resolve(expandHomePath(filePath));
+
+  let contents: string;
+  try {
+    contents = fs.readFileSync(resolvedPath, "utf8");
+  } catch (error) {
+    throw new InvalidInputError(
+      `Cannot read keypair file ${resolvedPath}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+
+  let secretKey: unknown;
+  try {
+    secretKey = JSON.parse(contents);
+  } catch {
+    throw new InvalidKeyError(
+      `Invalid keypair file ${resolvedPath}: expected a JSON array of 64 numbers`
+    );
+  }
+
+  if (
+    !Array.isArray(secretKey) ||
+    secretKey.length !== 64 ||
+    !secretKey.every(
+      (byte) => Number.isInteger(byte) && byte >= 0 && byte <= 255
+    )
+  ) {
+    throw new InvalidKeyError(
+      `Invalid keypair file ${resolvedPath}: expected a JSON array of 64 numbers`
+    );
+  }
+
+  return Keypair.fromSecretKey(Uint8Array.from(secretKey));
+}
+
+/**
+ * Write a keypair in solana-keygen JSON format, readable only by the owner
+ */
+export function writeKeypairFile(
+  filePath: string,
+  keypair: Keypair,
+  overwrite: boolean = false
+): string {
+  const resolvedPath = path.resolve(expandHomePath(filePath));
+
+  if (!overwrite && fs.existsSync(resolvedPath)) {
+    throw new InvalidInputError(
+      `Refusing to overwrite existing file ${resolvedPath} (use --force)`
+    );
+  }
+
+  fs.mkdirSync(path.dirname(resolvedPath), { recursive: true, mode: 0o700 });
+  fs.writeFileSync(
+    resolvedPath,
+    JSON.stringify(Array.from(keypair.secretKey)),
+    {
+      mode: 0o600,
+    }
+  );
+  // writeFileSync only applies the mode to new files
+  fs.chmodSync(resolvedPath, 0o600);
+
+  return resolvedPath;
+}
+
+/**
+ * Find keypair files that are likely candidates for the interactive picker
+ */
+export function findKeypairFiles(directory: string = process.cwd()): string[] {
+  const candidates = fs.existsSync(DEFAULT_KEYPAIR_PATH)
+    ? [DEFAULT_KEYPAIR_PATH]
+    : [];
+
+  try {
+    fs.readdirSync(directory)
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => path.join(directory, file))
+      .filter((file) => {
+        try {
+          readKeypairFile(file);
+          return true;
+        } catch {
+          return false;
+        }
+      })
+      .forEach((file) => candidates.push(file));
+  } catch {
+    // An unreadable directory simply yields no candidates
+  }
+
+  return Array.from(new Set(candidates));
+}
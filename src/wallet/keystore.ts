@@ -0,0 +1,292 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { promisify } from "util";
+import { Keypair } from "@solana/web3.js";
+import { KeystoreCrypto, KeystoreEntry, KeystoreFile } from "../types";
+import { InvalidInputError } from "../utils/errors";
+import { getConfigDir } from "../utils/helpers";
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+// scrypt cost parameters (N = 2^15, r = 8, p = 1 needs ~32 MB of memory)
+const SCRYPT_N = 1 << 15;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_LENGTH = 32;
+
+const WALLET_NAME_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+export class Keystore {
+  private filePath: string;
+
+  constructor(filePath: string = Keystore.defaultPath()) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Default keystore location inside the sol-tx config directory
+   */
+  static defaultPath(): string {
+    return path.join(getConfigDir(), "keystore.json");
+  }
+
+  /**
+   * Get the keystore file path
+   */
+  getPath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * List all stored wallet profiles (without secrets)
+   */
+  list(): Omit<KeystoreEntry, "crypto">[] {
+    return this.read().wallets.map(({ name, publicKey, createdAt }) => ({
+      name,
+      publicKey,
+      createdAt,
+    }));
+  }
+
+  /**
+   * Check if a wallet profile exists
+   */
+  has(name: string): boolean {
+    return this.read().wallets.some((wallet) => wallet.name === name);
+  }
+
+  /**
+   * Get the name of the currently selected wallet profile
+   */
+  getSelected(): string | undefined {
+    return this.read().selected;
+  }
+
+  /**
+   * Encrypt a keypair with the password and store it under the given name
+   */
+  async add(name: string, keypair: Keypair, password: string): Promise<void> {
+    Keystore.assertValidName(name);
+    if (!password) {
+      throw new InvalidInputError("Password must not be empty");
+    }
+
+    const data = this.read();
+    if (data.wallets.some((wallet) => wallet.name === name)) {
+      throw new InvalidInputError(
+        `Wallet "${name}" already exists in the keystore`
+      );
+    }
+
+    data.wallets.push({
+      name,
+      publicKey: keypair.publicKey.toBase58(),
+      createdAt: new Date().toISOString(),
+      crypto: await encryptSecretKey(keypair.secretKey, password),
+    });
+
+    // The first wallet added becomes the default one
+    if (!data.selected) {
+      data.selected = name;
+    }
+
+    this.write(data);
+  }
+
+  /**
+   * Decrypt the keypair stored under the given name
+   */
+  async unlock(name: string, password: string): Promise<Keypair> {
+    const entry = this.getEntry(name);
+    const secretKey = await decryptSecretKey(entry.crypto, password);
+    const keypair = Keypair.fromSecretKey(secretKey);
+
+    if (keypair.publicKey.toBase58() !== entry.publicKey) {
+      throw new Error(`Keystore entry "${name}" is corrupted`);
+    }
+
+    return keypair;
+  }
+
+  /**
+   * Rename a wallet profile
+   */
+  rename(oldName: string, newName: string): void {
+    Keystore.assertValidName(newName);
+
+    const data = this.read();
+    const entry = data.wallets.find((wallet) => wallet.name === oldName);
+    if (!entry) {
+      throw new InvalidInputError(
+        `Wallet "${oldName}" not found in the keystore`
+      );
+    }
+    if (data.wallets.some((wallet) => wallet.name === newName)) {
+      throw new InvalidInputError(
+        `Wallet "${newName}" already exists in the keystore`
+      );
+    }
+
+    entry.name = newName;
+    if (data.selected === oldName) {
+      data.selected = newName;
+    }
+
+    this.write(data);
+  }
+
+  /**
+   * Remove a wallet profile
+   */
+  remove(name: string): void {
+    const data = this.read();
+    const index = data.wallets.findIndex((wallet) => wallet.name === name);
+    if (index === -1) {
+      throw new InvalidInputError(`Wallet "${name}" not found in the keystore`);
+    }
+
+    data.wallets.splice(index, 1);
+    if (data.selected === name) {
+      data.selected = data.wallets[0]?.name;
+    }
+
+    this.write(data);
+  }
+
+  /**
+   * Select the wallet profile used when no wallet is specified
+   */
+  select(name: string): void {
+    const data = this.read();
+    if (!data.wallets.some((wallet) => wallet.name === name)) {
+      throw new InvalidInputError(`Wallet "${name}" not found in the keystore`);
+    }
+
+    data.selected = name;
+    this.write(data);
+  }
+
+  /**
+   * Validate a wallet profile name
+   */
+  static isValidName(name: string): boolean {
+    return WALLET_NAME_PATTERN.test(name);
+  }
+
+  private static assertValidName(name: string): void {
+    if (!Keystore.isValidName(name)) {
+      throw new InvalidInputError(
+        "Invalid wallet name. Use 1-32 letters, numbers, '-' or '_'."
+      );
+    }
+  }
+
+  private getEntry(name: string): KeystoreEntry {
+    const entry = this.read().wallets.find((wallet) => wallet.name === name);
+    if (!entry) {
+      throw new InvalidInputError(`Wallet "${name}" not found in the keystore`);
+    }
+    return entry;
+  }
+
+  private read(): KeystoreFile {
+    if (!fs.existsSync(this.filePath)) {
+      return { version: 1, wallets: [] };
+    }
+
+    const data = JSON.parse(fs.readFileSync(this.filePath, "utf8"));
+    if (data.version !== 1 || !Array.isArray(data.wallets)) {
+      throw new Error(`Unsupported keystore format in ${this.filePath}`);
+    }
+    return data as KeystoreFile;
+  }
+
+  private write(data: KeystoreFile): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true, mode: 0o700 });
+
+    // Write to a temporary file first so a crash never leaves a truncated keystore
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(data, null, 2), { mode: 0o600 });
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
+
+async function encryptSecretKey(
+  secretKey: Uint8Array,
+  password: string
+): Promise<KeystoreCrypto> {
+  const salt = crypto.randomBytes(32);
+  const iv = crypto.randomBytes(12);
+  const key = await deriveKey(password, salt, SCRYPT_N, SCRYPT_R, SCRYPT_P);
+
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.from(secretKey)),
+    cipher.final(),
+  ]);
+
+  return {
+    kdf: "scrypt",
+    kdfparams: {
+      n: SCRYPT_N,
+      r: SCRYPT_R,
+      p: SCRYPT_P,
+      dklen: KEY_LENGTH,
+      salt: salt.toString("hex"),
+    },
+    cipher: "aes-256-gcm",
+    iv: iv.toString("hex"),
+    authTag: cipher.getAuthTag().toString("hex"),
+    ciphertext: ciphertext.toString("hex"),
+  };
+}
+
+async function decryptSecretKey(
+  params: KeystoreCrypto,
+  password: string
+): Promise<Uint8Array> {
+  const { n, r, p, salt } = params.kdfparams;
+  const key = await deriveKey(password, Buffer.from(salt, "hex"), n, r, p);
+
+  const decipher = crypto.createDecipheriv(
+    "aes-256-gcm",
+    key,
+    Buffer.from(params.iv, "hex")
+  );
+  decipher.setAuthTag(Buffer.from(params.authTag, "hex"));
+
+  try {
+    return new Uint8Array(
+      Buffer.concat([
+        decipher.update(Buffer.from(params.ciphertext, "hex")),
+        decipher.final(),
+      ])
+    );
+  } catch {
+    // GCM authentication fails for both a wrong password and a tampered file
+    throw new InvalidInputError(
+      "Incorrect password or corrupted keystore entry"
+    );
+  }
+}
+
+function deriveKey(
+  password: string,
+  salt: Buffer,
+  n: number,
+  r: number,
+  p: number
+): Promise<Buffer> {
+  return scrypt(password.normalize("NFKC"), salt, KEY_LENGTH, {
+    N: n,
+    r,
+    p,
+    maxmem: 256 * n * r,
+  });
+}
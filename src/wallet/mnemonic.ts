@@ -0,0 +1,139 @@
+import crypto from "crypto";
+import * as bip39 from "bip39";
+import { Keypair } from "@solana/web3.js";
+import { InvalidInputError, InvalidKeyError } from "../utils/errors";
+
+// Derivation path used by Phantom, Solflare and `solana-keygen --derivation-path`
+export const DEFAULT_DERIVATION_PATH = "m/44'/501'/0'/0'";
+
+const HARDENED_OFFSET = 0x80000000;
+const ED25519_SEED_KEY = "ed25519 seed";
+
+/**
+ * Generate a new BIP39 mnemonic (12 or 24 words)
+ */
+export function generateMnemonic(words: 12 | 24 = 12): string {
+  return bip39.generateMnemonic(words === 24 ? 256 : 128);
+}
+
+/**
+ * Normalize whitespace and case in a user-entered mnemonic
+ */
+export function normalizeMnemonic(mnemonic: string): string {
+  return mnemonic.trim().toLowerCase().split(/\s+/).join(" ");
+}
+
+/**
+ * Validate a BIP39 mnemonic (word list and checksum)
+ */
+export function validateMnemonic(mnemonic: string): boolean {
+  return bip39.validateMnemonic(normalizeMnemonic(mnemonic));
+}
+
+/**
+ * Build the standard Solana derivation path for an account index
+ */
+export function getDerivationPath(account: number): string {
+  return `m/44'/501'/${account}'/0'`;
+}
+
+/**
+ * Parse a derivation path such as m/44'/501'/0'/0' into hardened indexes.
+ * ed25519 under SLIP-0010 only supports hardened derivation.
+ */
+export function parseDerivationPath(derivationPath: string): number[] {
+  const segments = derivationPath.trim().split("/");
+  if (segments[0] !== "m") {
+    throw new InvalidInputError(
+      `Invalid derivation path "${derivationPath}": must start with "m"`
+    );
+  }
+
+  return segments.slice(1).map((segment) => {
+    const match = /^(\d+)['hH]$/.exec(segment);
+    if (!match) {
+      throw new InvalidInputError(
+        `Invalid derivation path "${derivationPath}": every segment must be hardened (e.g. 44')`
+      );
+    }
+    const index = Number(match[1]);
+    if (index >= HARDENED_OFFSET) {
+      throw new InvalidInputError(
+        `Invalid derivation path "${derivationPath}": index ${index} is too large`
+      );
+    }
+    return index + HARDENED_OFFSET;
+  });
+}
+
+/**
+ * Derive an ed25519 seed from a BIP39 seed using SLIP-0010
+ */
+export function deriveEd25519Seed(
+  seed: Buffer,
+  derivationPath: string
+): Buffer {
+  let digest = crypto
+    .createHmac("sha512", ED25519_SEED_KEY)
+    .update(seed)
+    .digest();
+  let key = digest.subarray(0, 32);
+  let chainCode = digest.subarray(32);
+
+  for (const index of parseDerivationPath(derivationPath)) {
+    const indexBuffer = Buffer.alloc(4);
+    indexBuffer.writeUInt32BE(index);
+
+    digest = crypto
+      .createHmac("sha512", chainCode)
+      .update(Buffer.concat([Buffer.alloc(1, 0), key, indexBuffer]))
+      .digest();
+    key = digest.subarray(0, 32);
+    chainCode = digest.subarray(32);
+  }
+
+  return key;
+}
+
+/**
+ * Derive a keypair from a mnemonic, optional BIP39 passphrase and derivation path
+ */
+export function keypairFromMnemonic(
+  mnemonic: string,
+  passphrase: string = "",
+  derivationPath: string = DEFAULT_DERIVATION_PATH
+): Keypair {
+  const normalized = normalizeMnemonic(mnemonic);
+  if (!bip39.validateMnemonic(normalized)) {
+    throw new InvalidKeyError(
+      "Invalid mnemonic. Please check the words and their order (12 or 24 words)."
+    );
+  }
+
+  const seed = bip39.mnemonicToSeedSync(normalized, passphrase);
+  return Keypair.fromSeed(deriveEd25519Seed(seed, derivationPath));
+}
+
+/**
+ * Derive the keypairs for a range of standard account indexes
+ */
+export function deriveKeypairs(
+  mnemonic: string,
+  passphrase: string,
+  count: number,
+  start: number = 0
+): { path: string; keypair: Keypair }[] {
+  const normalized = normalizeMnemonic(mnemonic);
+  if (!bip39.validateMnemonic(normalized)) {
+    throw new InvalidKeyError(
+      "Invalid mnemonic. Please check the words and their order (12 or 24 words)."
+    );
+  }
+
+  // The seed is derived once; PBKDF2 with 2048 rounds is the slow part
+  const seed = bip39.mnemonicToSeedSync(normalized, passphrase);
+  return Array.from({ length: count }, (_, offset) => {
+    const path = getDerivationPath(start + offset);
+    return { path, keypair: Keypair.fromSeed(deriveEd25519Seed(seed, path)) };
+  });
+}
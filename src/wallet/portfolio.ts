@@ -0,0 +1,98 @@
+import { Connection, ParsedAccountData, PublicKey } from "@solana/web3.js";
+import {
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  getAssociatedTokenAddressSync,
+} from "@solana/spl-token";
+import { TokenHolding, WalletBalance, WalletPortfolio } from "../types";
+import { formatBalance, lamportsToSol } from "../utils/helpers";
+
+interface ParsedTokenAccountInfo {
+  mint: string;
+  state: "initialized" | "frozen" | "uninitialized";
+  tokenAmount: { amount: string; decimals: number; uiAmountString: string };
+  delegate?: string;
+  delegatedAmount?: { amount: string };
+}
+
+export class PortfolioManager {
+  private connection: Connection;
+
+  constructor(connection: Connection) {
+    this.connection = connection;
+  }
+
+  /**
+   * Get the SOL balance of a wallet
+   */
+  async getBalance(owner: PublicKey): Promise<WalletBalance> {
+    const lamports = BigInt(await this.connection.getBalance(owner));
+    return {
+      lamports,
+      sol: lamportsToSol(lamports),
+      formatted: `${formatBalance(lamports)} SOL`,
+    };
+  }
+
+  /**
+   * Get the SOL balance and every token account owned by a wallet
+   */
+  async getPortfolio(owner: PublicKey): Promise<WalletPortfolio> {
+    const [balance, classicTokens, token2022Tokens] = await Promise.all([
+      this.getBalance(owner),
+      this.getTokenHoldings(owner, TOKEN_PROGRAM_ID),
+      this.getTokenHoldings(owner, TOKEN_2022_PROGRAM_ID),
+    ]);
+
+    const tokens = [...classicTokens, ...token2022Tokens].sort(
+      (a, b) =>
+        Number(b.amount > 0n) - Number(a.amount > 0n) ||
+        a.mint.localeCompare(b.mint)
+    );
+
+    return { ...balance, owner: owner.toBase58(), tokens };
+  }
+
+  /**
+   * List the token accounts owned by a wallet for one token program
+   */
+  async getTokenHoldings(
+    owner: PublicKey,
+    programId: PublicKey
+  ): Promise<TokenHolding[]> {
+    const { value } = await this.connection.getParsedTokenAccountsByOwner(
+      owner,
+      { programId }
+    );
+
+    return value.map(({ pubkey, account }) => {
+      const info = (account.data as ParsedAccountData).parsed
+        .info as ParsedTokenAccountInfo;
+      const mint = new PublicKey(info.mint);
+      const associatedAddress = getAssociatedTokenAddressSync(
+        mint,
+        owner,
+        true,
+        programId
+      );
+
+      return {
+        address: pubkey.toBase58(),
+        mint: info.mint,
+        programId: programId.toBase58(),
+        program: programId.equals(TOKEN_2022_PROGRAM_ID)
+          ? "token-2022"
+          : "token",
+        amount: BigInt(info.tokenAmount.amount),
+        uiAmount: info.tokenAmount.uiAmountString,
+        decimals: info.tokenAmount.decimals,
+        isFrozen: info.state === "frozen",
+        delegate: info.delegate,
+        delegatedAmount: info.delegatedAmount
+          ? BigInt(info.delegatedAmount.amount)
+          : undefined,
+        isAssociated: pubkey.equals(associatedAddress),
+      };
+    });
+  }
+}
@@ -0,0 +1,98 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { InvalidInputError } from "../utils/errors";
+import {
+  estimateVanityAttempts,
+  findVanityKeypair,
+  matchesVanityPattern,
+  validateVanityPattern,
+} from "./vanity";
+
+describe("validateVanityPattern", () => {
+  test("accepts base58 characters", () => {
+    validateVanityPattern("So1ana9");
+    validateVanityPattern("");
+  });
+
+  test("names the characters that never appear", () => {
+    assert.throws(
+      () => validateVanityPattern("c0OlI"),
+      (error) =>
+        error instanceof InvalidInputError &&
+        error.message.includes("'0', 'O', 'l', 'I'")
+    );
+  });
+
+  test("allows a character whose other case is base58 when ignoring case", () => {
+    // "l" is not base58, but "L" is
+    assert.throws(() => validateVanityPattern("lo"), InvalidInputError);
+    validateVanityPattern("lo", true);
+    // Neither "0" nor any other case of it exists
+    assert.throws(() => validateVanityPattern("0", true), InvalidInputError);
+  });
+});
+
+describe("estimateVanityAttempts", () => {
+  test("grows 58 times per character", () => {
+    assert.equal(estimateVanityAttempts(), 1);
+    assert.equal(estimateVanityAttempts("A"), 58);
+    assert.equal(estimateVanityAttempts("Ab", "c"), 58 ** 3);
+  });
+
+  test("counts every matching case when ignoring case", () => {
+    assert.equal(estimateVanityAttempts("a", "", true), 29);
+    // Only "L" matches "l", only "o" matches "o"
+    assert.equal(estimateVanityAttempts("lo", "", true), 58 * 58);
+    assert.equal(estimateVanityAttempts("9", "", true), 58);
+  });
+});
+
+describe("matchesVanityPattern", () => {
+  const address = "SoLxyz9aBc";
+
+  test("matches prefix and suffix", () => {
+    const pattern = { prefix: "SoL", suffix: "Bc", ignoreCase: false };
+    assert.equal(matchesVanityPattern(address, pattern), true);
+    assert.equal(
+      matchesVanityPattern(address, { ...pattern, prefix: "sol" }),
+      false
+    );
+  });
+
+  test("compares lowercased addresses when ignoring case", () => {
+    assert.equal(
+      matchesVanityPattern(address, {
+        prefix: "sol",
+        suffix: "abc",
+        ignoreCase: true,
+      }),
+      true
+    );
+  });
+});
+
+describe("findVanityKeypair", () => {
+  test("rejects invalid searches before starting workers", () => {
+    assert.throws(() => findVanityKeypair({}), /prefix, a suffix or both/);
+    assert.throws(() => findVanityKeypair({ prefix: "0x" }), InvalidInputError);
+    assert.throws(
+      () => findVanityKeypair({ prefix: "A".repeat(45) }),
+      /cannot exceed 44/
+    );
+    assert.throws(
+      () => findVanityKeypair({ prefix: "A", threads: 0 }),
+      /positive integer/
+    );
+  });
+
+  test("finds a keypair with the prefix", async () => {
+    const result = await findVanityKeypair({
+      prefix: "a",
+      ignoreCase: true,
+      threads: 1,
+    });
+
+    assert.match(result.keypair.publicKey.toBase58(), /^a/i);
+    assert.ok(result.attempts >= 1);
+  });
+});
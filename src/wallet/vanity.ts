@@ -0,0 +1,191 @@
+import os from "os";
+import path from "path";
+import { Worker } from "worker_threads";
+import { Keypair } from "@solana/web3.js";
+import { VanityOptions, VanityResult } from "../types";
+import { InvalidInputError } from "../utils/errors";
+
+export const BASE58_ALPHABET =
+  "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+// Longest base58 encoding of a 32 byte public key
+const MAX_ADDRESS_LENGTH = 44;
+const PROGRESS_INTERVAL_MS = 1_000;
+
+/**
+ * Pattern passed to the search workers. With ignoreCase the prefix and
+ * suffix are already lowercased.
+ */
+export interface VanityPattern {
+  prefix: string;
+  suffix: string;
+  ignoreCase: boolean;
+}
+
+/**
+ * Messages posted by a search worker
+ */
+export type VanityWorkerMessage =
+  | { type: "progress"; attempts: number }
+  | { type: "found"; attempts: number; secretKey: Uint8Array };
+
+/**
+ * Check that a prefix or suffix can occur in a base58 address
+ */
+export function validateVanityPattern(
+  pattern: string,
+  ignoreCase: boolean = false
+): void {
+  const invalid = [...new Set(pattern)].filter(
+    (char) => alphabetMatches(char, ignoreCase) === 0
+  );
+  if (invalid.length > 0) {
+    throw new InvalidInputError(
+      `"${pattern}" contains characters that never appear in addresses: ${invalid
+        .map((char) => `'${char}'`)
+        .join(", ")}. Base58 has no 0, O, I or l.`
+    );
+  }
+}
+
+/**
+ * Average number of random keypairs needed to match the pattern
+ */
+export function estimateVanityAttempts(
+  prefix: string = "",
+  suffix: string = "",
+  ignoreCase: boolean = false
+): number {
+  return [...prefix, ...suffix].reduce(
+    (attempts, char) =>
+      (attempts * BASE58_ALPHABET.length) / alphabetMatches(char, ignoreCase),
+    1
+  );
+}
+
+/**
+ * Whether an address matches a pattern prepared by findVanityKeypair
+ */
+export function matchesVanityPattern(
+  address: string,
+  pattern: VanityPattern
+): boolean {
+  const candidate = pattern.ignoreCase ? address.toLowerCase() : address;
+  return (
+    candidate.startsWith(pattern.prefix) && candidate.endsWith(pattern.suffix)
+  );
+}
+
+/**
+ * Search for a keypair whose address starts and/or ends with the given
+ * characters, using one worker thread per CPU core by default
+ */
+export function findVanityKeypair(
+  options: VanityOptions
+): Promise<VanityResult> {
+  const prefix = options.prefix ?? "";
+  const suffix = options.suffix ?? "";
+  const ignoreCase = options.ignoreCase ?? false;
+  const threads = options.threads ?? os.cpus().length;
+
+  if (!prefix && !suffix) {
+    throw new InvalidInputError("Provide a prefix, a suffix or both");
+  }
+  validateVanityPattern(prefix, ignoreCase);
+  validateVanityPattern(suffix, ignoreCase);
+  if (prefix.length + suffix.length > MAX_ADDRESS_LENGTH) {
+    throw new InvalidInputError(
+      `Prefix and suffix together cannot exceed ${MAX_ADDRESS_LENGTH} characters`
+    );
+  }
+  if (!Number.isInteger(threads) || threads < 1) {
+    throw new InvalidInputError("Thread count must be a positive integer");
+  }
+
+  const pattern: VanityPattern = {
+    prefix: ignoreCase ? prefix.toLowerCase() : prefix,
+    suffix: ignoreCase ? suffix.toLowerCase() : suffix,
+    ignoreCase,
+  };
+  const expectedAttempts = estimateVanityAttempts(prefix, suffix, ignoreCase);
+  const startedAt = Date.now();
+  let attempts = 0;
+
+  return new Promise((resolve, reject) => {
+    const workers = Array.from({ length: threads }, () => spawnWorker(pattern));
+    const progress = setInterval(() => {
+      const elapsedMs = Date.now() - startedAt;
+      options.onProgress?.({
+        attempts,
+        rate: elapsedMs > 0 ? (attempts * 1000) / elapsedMs : 0,
+        elapsedMs,
+        expectedAttempts,
+      });
+    }, PROGRESS_INTERVAL_MS);
+
+    let settled = false;
+    let running = workers.length;
+    const finish = () => {
+      settled = true;
+      clearInterval(progress);
+      workers.forEach((worker) => void worker.terminate());
+    };
+
+    workers.forEach((worker) => {
+      worker.on("message", (message: VanityWorkerMessage) => {
+        if (settled) return;
+        attempts += message.attempts;
+        if (message.type === "found") {
+          finish();
+          resolve({
+            keypair: Keypair.fromSecretKey(message.secretKey),
+            attempts,
+            elapsedMs: Date.now() - startedAt,
+          });
+        }
+      });
+      worker.on("error", (error) => {
+        if (settled) return;
+        finish();
+        reject(error);
+      });
+      // Workers only stop on their own when something went wrong
+      worker.on("exit", (code) => {
+        running--;
+        if (settled || running > 0) return;
+        finish();
+        reject(
+          new Error(
+            `All search workers exited without finding a match (exit code ${code})`
+          )
+        );
+      });
+    });
+  });
+}
+
+function spawnWorker(pattern: VanityPattern): Worker {
+  const extension = path.extname(__filename);
+  const script = path.join(__dirname, `vanityWorker${extension}`);
+  if (extension !== ".ts") {
+    return new Worker(script, { workerData: pattern });
+  }
+
+  // Under ts-node the worker has to register the TypeScript loader itself
+  const loader = require.resolve("ts-node/register/transpile-only");
+  return new Worker(
+    `require(${JSON.stringify(loader)}); require(${JSON.stringify(script)});`,
+    { eval: true, workerData: pattern }
+  );
+}
+
+/**
+ * Number of base58 characters that match a pattern character
+ */
+function alphabetMatches(char: string, ignoreCase: boolean): number {
+  if (!ignoreCase) {
+    return BASE58_ALPHABET.includes(char) ? 1 : 0;
+  }
+  return [...BASE58_ALPHABET].filter(
+    (candidate) => candidate.toLowerCase() === char.toLowerCase()
+  ).length;
+}
@@ -0,0 +1,39 @@
+/**
+ * Worker thread for findVanityKeypair: generates keypairs until one matches
+ * the pattern in workerData. Runs until the parent terminates it.
+ */
+
+import { parentPort, workerData } from "worker_threads";
+import { Keypair } from "@solana/web3.js";
+import {
+  VanityPattern,
+  VanityWorkerMessage,
+  matchesVanityPattern,
+} from "./vanity";
+
+// Keypairs generated between progress reports
+const REPORT_EVERY = 250;
+
+const pattern = workerData as VanityPattern;
+let attempts = 0;
+
+for (;;) {
+  const keypair = Keypair.generate();
+  attempts++;
+
+  if (matchesVanityPattern(keypair.publicKey.toBase58(), pattern)) {
+    const message: VanityWorkerMessage = {
+      type: "found",
+      attempts,
+      secretKey: keypair.secretKey,
+    };
+    parentPort!.postMessage(message);
+    break;
+  }
+
+  if (attempts === REPORT_EVERY) {
+    const message: VanityWorkerMessage = { type: "progress", attempts };
+    parentPort!.postMessage(message);
+    attempts = 0;
+  }
+}
@@ -1,5 +1,14 @@
 import { Keypair, PublicKey } from "@solana/web3.js";
 import bs58 from "bs58";
+import { InvalidKeyError, NonSystemAccountError } from "../utils/errors";
+import { Logger, silentLogger } from "../utils/logger";
+import { Keystore } from "./keystore";
+import { readKeypairFile, writeKeypairFile } from "./keypairFile";
+import {
+  DEFAULT_DERIVATION_PATH,
+  generateMnemonic,
+  keypairFromMnemonic,
+} from "./mnemonic";
 
 export class WalletManager {
   private keypair: Keypair;
@@ -29,15 +38,11 @@ export class WalletManager {
           throw new Error("Invalid private key format");
         }
       } catch {
-        throw new Error(
+        throw new InvalidKeyError(
           "Invalid private key format. Please provide a base58 encoded private key or array of 64 numbers."
         );
       }
     }
-
-    // Validate that the keypair was created correctly
-    console.log(`🔑 Wallet loaded successfully`);
-    console.log(`📍 Public Key: ${this.keypair.publicKey.toBase58()}`);
   }
 
   /**
@@ -70,6 +75,77 @@ export class WalletManager {
     return new WalletManager(privateKey);
   }
 
+  /**
+   * Create a new wallet together with the BIP39 mnemonic it was derived from
+   */
+  static createNewWithMnemonic(
+    words: 12 | 24 = 12,
+    passphrase: string = ""
+  ): { wallet: WalletManager; mnemonic: string } {
+    const mnemonic = generateMnemonic(words);
+    return {
+      wallet: WalletManager.fromMnemonic(mnemonic, passphrase),
+      mnemonic,
+    };
+  }
+
+  /**
+   * Import a wallet from a BIP39 mnemonic using SLIP-0010 derivation
+   */
+  static fromMnemonic(
+    mnemonic: string,
+    passphrase: string = "",
+    derivationPath: string = DEFAULT_DERIVATION_PATH
+  ): WalletManager {
+    const keypair = keypairFromMnemonic(mnemonic, passphrase, derivationPath);
+    return WalletManager.fromKeypair(keypair);
+  }
+
+  /**
+   * Create a wallet from an existing keypair
+   */
+  static fromKeypair(keypair: Keypair): WalletManager {
+    return new WalletManager(bs58.encode(keypair.secretKey));
+  }
+
+  /**
+   * Load a wallet from a solana-keygen JSON keypair file
+   */
+  static fromKeypairFile(filePath: string): WalletManager {
+    return WalletManager.fromKeypair(readKeypairFile(filePath));
+  }
+
+  /**
+   * Write this wallet to a solana-keygen JSON keypair file.
+   * Returns the resolved path of the written file.
+   */
+  exportToKeypairFile(filePath: string, overwrite: boolean = false): string {
+    return writeKeypairFile(filePath, this.keypair, overwrite);
+  }
+
+  /**
+   * Unlock a wallet profile stored in the encrypted keystore
+   */
+  static async fromKeystore(
+    keystore: Keystore,
+    name: string,
+    password: string
+  ): Promise<WalletManager> {
+    const keypair = await keystore.unlock(name, password);
+    return WalletManager.fromKeypair(keypair);
+  }
+
+  /**
+   * Save this wallet into the encrypted keystore under the given name
+   */
+  async saveToKeystore(
+    keystore: Keystore,
+    name: string,
+    password: string
+  ): Promise<void> {
+    await keystore.add(name, this.keypair, password);
+  }
+
   /**
    * Validate if a string is a valid private key
    */
@@ -85,24 +161,28 @@ export class WalletManager {
   /**
    * Validate that this wallet can be used for transactions
    */
-  async validateForTransactions(connection: any): Promise<void> {
+  async validateForTransactions(
+    connection: any,
+    logger: Logger = silentLogger
+  ): Promise<void> {
     const accountInfo = await connection.getAccountInfo(this.keypair.publicKey);
 
     if (accountInfo) {
       // Check if this is a system account (owner should be System Program)
       const systemProgramId = "11111111111111111111111111111111";
       if (accountInfo.owner.toBase58() !== systemProgramId) {
-        throw new Error(
+        throw new NonSystemAccountError(
           `❌ This account is owned by program ${accountInfo.owner.toBase58()} and cannot sign transactions. ` +
             `System accounts should be owned by ${systemProgramId}. ` +
-            `You may be using a token account or PDA instead of a wallet account.`
+            `You may be using a token account or PDA instead of a wallet account.`,
+          accountInfo.owner.toBase58()
         );
       }
-      console.log(
+      logger.info(
         `✅ Account validation passed - this is a valid system account`
       );
     } else {
-      console.log(
+      logger.info(
         `ℹ️  This account doesn't exist on-chain yet (will be created on first transaction)`
       );
     }